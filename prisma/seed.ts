@@ -0,0 +1,45 @@
+import prisma from "../src/configs/prisma";
+import logger from "../src/utils/logger";
+import roleService from "../src/modules/role/role.service";
+
+/**
+ * Users linked through the old googleId/appleId columns keep signing in
+ * to the same account once those columns are gone. Safe to run again.
+ */
+const backfillLegacyIdentities = async () => {
+  const users = await prisma.user.findMany({
+    where: { OR: [{ googleId: { not: null } }, { appleId: { not: null } }] },
+    select: { id: true, email: true, googleId: true, appleId: true },
+  });
+
+  let created = 0;
+  for (const user of users) {
+    const legacy = [
+      { provider: "google", subject: user.googleId },
+      { provider: "apple", subject: user.appleId },
+    ];
+    for (const { provider, subject } of legacy) {
+      if (!subject) continue;
+      const result = await prisma.authIdentity.createMany({
+        data: { userId: user.id, provider, subject, email: user.email },
+        skipDuplicates: true,
+      });
+      created += result.count;
+    }
+  }
+  logger.info("Legacy social identities backfilled", {
+    users: users.length,
+    created,
+  });
+};
+
+// Built-in roles and permissions; the server also ensures these on start
+roleService
+  .ensureDefaultRoles()
+  .then(backfillLegacyIdentities)
+  .then(() => prisma.$disconnect())
+  .catch(async (error) => {
+    logger.error("Seeding failed", { error: error.message });
+    await prisma.$disconnect();
+    process.exit(1);
+  });
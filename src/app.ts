@@ -16,8 +16,11 @@ import rateLimit from "express-rate-limit";
 import swaggerUi from "swagger-ui-express";
 import swaggerDocs from "./docs/swagger";
 import cookieParser from "cookie-parser";
+import keyringController from "./modules/keyring/keyring.controller";
 
 const app: Application = express();
+// req.ip only follows X-Forwarded-For through the configured proxies
+app.set("trust proxy", env.trustProxy);
 // Rate Limiter
 if (!env.DEBUG) {
   app.use(
@@ -57,6 +60,7 @@ app.use(deviceMiddleware);
 app.use(i18nMiddleware);
 app.use(compression());
 app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerDocs));
+app.get("/.well-known/jwks.json", keyringController.getJwks);
 app.use("/api/v1", v1Router);
 
 app.use(errorConverter);
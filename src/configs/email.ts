@@ -3,7 +3,7 @@ import logger from "../utils/logger";
 import nodemailer from "nodemailer";
 import ApiError from "../utils/ApiError";
 import httpStatus from "http-status";
-import emailTemplates from "./emailTemplates";
+import emailTemplates, { type LoginAlertDevice } from "./emailTemplates";
 
 // Create a test account or replace with real credentials.
 const transporter = nodemailer.createTransport(env.email.provider);
@@ -120,6 +120,132 @@ const sendPaymentLinkEmail = async (
   logger.info(`Sending payment link email to ${to}`);
 };
 
+const sendMagicLinkEmail = async (
+  to: string,
+  link: string,
+  expiresInMinutes: number
+) => {
+  const template = emailTemplates.magicLink(link, expiresInMinutes);
+  await sendMail({
+    to,
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+  });
+  logger.info(`Sending magic link email to ${to}`);
+};
+
+const sendAccountLockedEmail = async (
+  to: string,
+  unlockLink: string,
+  lockMinutes: number
+) => {
+  const template = emailTemplates.accountLocked(unlockLink, lockMinutes);
+  await sendMail({
+    to,
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+  });
+  logger.info(`Sending account locked email to ${to}`);
+};
+
+const sendEmailChangeCodeEmail = async (
+  to: string,
+  code: string,
+  expiresInMinutes: number
+) => {
+  const template = emailTemplates.emailChangeCode(code, expiresInMinutes);
+  await sendMail({
+    to,
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+  });
+  logger.info(`Sending email change code to ${to}`);
+};
+
+const sendEmailChangeNoticeEmail = async (
+  to: string,
+  newEmail: string,
+  cancelLink: string,
+  revertDays: number
+) => {
+  const template = emailTemplates.emailChangeNotice(
+    newEmail,
+    cancelLink,
+    revertDays
+  );
+  await sendMail({
+    to,
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+  });
+  logger.info(`Sending email change notice to ${to}`);
+};
+
+const sendNewLoginAlertEmail = async (
+  to: string,
+  device: LoginAlertDevice,
+  reportLink: string
+) => {
+  const template = emailTemplates.newLoginAlert(device, reportLink);
+  await sendMail({
+    to,
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+  });
+  logger.info(`Sending new login alert to ${to}`);
+};
+
+const sendInvitationEmail = async (
+  to: string,
+  inviterName: string,
+  acceptLink: string,
+  expiresInDays: number
+) => {
+  const template = emailTemplates.invitation(inviterName, acceptLink, expiresInDays);
+  await sendMail({
+    to,
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+  });
+  logger.info(`Sending invitation to ${to}`);
+};
+
+const sendAccountDeletionScheduledEmail = async (
+  to: string,
+  deletionDate: string,
+  loginLink: string
+) => {
+  const template = emailTemplates.accountDeletionScheduled(deletionDate, loginLink);
+  await sendMail({
+    to,
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+  });
+  logger.info(`Sending account deletion notice to ${to}`);
+};
+
+const sendDataExportReadyEmail = async (
+  to: string,
+  downloadLink: string,
+  expiresInHours: number
+) => {
+  const template = emailTemplates.dataExportReady(downloadLink, expiresInHours);
+  await sendMail({
+    to,
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+  });
+  logger.info(`Sending data export link to ${to}`);
+};
+
 export default {
   sendRegistrationEmail,
   sendResetPasswordEmail,
@@ -128,4 +254,12 @@ export default {
   sendWelcomeEmail,
   sendAssessmentEmail,
   sendPaymentLinkEmail,
+  sendMagicLinkEmail,
+  sendAccountLockedEmail,
+  sendEmailChangeCodeEmail,
+  sendEmailChangeNoticeEmail,
+  sendNewLoginAlertEmail,
+  sendInvitationEmail,
+  sendAccountDeletionScheduledEmail,
+  sendDataExportReadyEmail,
 };
@@ -9,6 +9,13 @@ interface EmailTemplate {
     text: string;
 }
 
+export interface LoginAlertDevice {
+    deviceName: string;
+    ipAddress: string;
+    location: string;
+    time: string;
+}
+
 export const emailTemplates = {
     /**
      * Registration confirmation email
@@ -262,6 +269,188 @@ ${invoiceLink}
 ${customMessage || "Thank you for your business!"}
     `,
     }),
+
+    /**
+     * Magic link sign-in email
+     */
+    magicLink: (link: string, expiresInMinutes: number): EmailTemplate => ({
+        subject: "Your Sign-in Link",
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Sign in to your account</h2>
+        <p>Click the button below to sign in. This link expires in ${expiresInMinutes} minutes and can only be used once.</p>
+        <div style="margin: 30px 0;">
+          <a href="${link}"
+             style="background-color: #2563eb; color: white; padding: 12px 24px;
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            Sign In
+          </a>
+        </div>
+        <p>The link only works on the device and browser where you requested it.</p>
+        <p>If you didn't request this, please ignore this email.</p>
+      </div>
+    `,
+        text: `Sign in using this link (expires in ${expiresInMinutes} minutes, single use): ${link}`,
+    }),
+
+    /**
+     * Account locked after repeated failed logins
+     */
+    accountLocked: (unlockLink: string, lockMinutes: number): EmailTemplate => ({
+        subject: "Your Account Has Been Temporarily Locked",
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Account Temporarily Locked</h2>
+        <p>We detected several failed sign-in attempts on your account, so we locked it for ${lockMinutes} minutes.</p>
+        <p>If this was you, you can unlock your account right away:</p>
+        <div style="margin: 30px 0;">
+          <a href="${unlockLink}"
+             style="background-color: #2563eb; color: white; padding: 12px 24px;
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            Unlock Account
+          </a>
+        </div>
+        <p>If this wasn't you, we recommend changing your password once the lock expires.</p>
+      </div>
+    `,
+        text: `Your account was locked for ${lockMinutes} minutes after several failed sign-in attempts. Unlock it here: ${unlockLink}`,
+    }),
+
+    /**
+     * Confirmation code sent to the requested new address
+     */
+    emailChangeCode: (code: string, expiresInMinutes: number): EmailTemplate => ({
+        subject: "Confirm Your New Email Address",
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Confirm Your New Email</h2>
+        <p>Use this code to confirm this address for your account:</p>
+        <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <code style="font-size: 18px; font-weight: bold;">${code}</code>
+        </div>
+        <p>The code expires in ${expiresInMinutes} minutes. If you didn't request this, please ignore this email.</p>
+      </div>
+    `,
+        text: `Use this code to confirm your new email address: ${code}. It expires in ${expiresInMinutes} minutes.`,
+    }),
+
+    /**
+     * Notice sent to the current address when a change is requested
+     */
+    emailChangeNotice: (
+        newEmail: string,
+        cancelLink: string,
+        revertDays: number
+    ): EmailTemplate => ({
+        subject: "Email Change Requested",
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Email Change Requested</h2>
+        <p>Someone asked to change the email address on your account to <strong>${newEmail}</strong>.</p>
+        <p>If this wasn't you, cancel the change and secure your account. The link also undoes the change for ${revertDays} days after it is confirmed:</p>
+        <div style="margin: 30px 0;">
+          <a href="${cancelLink}"
+             style="background-color: #dc2626; color: white; padding: 12px 24px;
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            Cancel Email Change
+          </a>
+        </div>
+      </div>
+    `,
+        text: `A change of your account email to ${newEmail} was requested. If this wasn't you, cancel it here (the link also undoes the change for ${revertDays} days after it is confirmed): ${cancelLink}`,
+    }),
+    newLoginAlert: (device: LoginAlertDevice, reportLink: string): EmailTemplate => ({
+        subject: "New Sign-in to Your Account",
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>New Sign-in Detected</h2>
+        <p>Your account was just signed in to from a device or location we haven't seen before:</p>
+        <ul>
+          <li><strong>Device:</strong> ${device.deviceName}</li>
+          <li><strong>IP address:</strong> ${device.ipAddress}</li>
+          <li><strong>Location:</strong> ${device.location}</li>
+          <li><strong>Time:</strong> ${device.time}</li>
+        </ul>
+        <p>If this was you, no action is needed. If it wasn't, sign that session out right away and change your password:</p>
+        <div style="margin: 30px 0;">
+          <a href="${reportLink}"
+             style="background-color: #dc2626; color: white; padding: 12px 24px;
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            This Wasn't Me
+          </a>
+        </div>
+      </div>
+    `,
+        text: `New sign-in to your account from ${device.deviceName} (IP ${device.ipAddress}, ${device.location}) at ${device.time}. If this wasn't you, sign that session out here: ${reportLink}`,
+    }),
+
+    /**
+     * Invitation to create an account
+     */
+    invitation: (inviterName: string, acceptLink: string, expiresInDays: number): EmailTemplate => ({
+        subject: "You've Been Invited",
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>You're invited</h2>
+        <p>${inviterName} has invited you to create an account. Click the button below to choose your password and get started.</p>
+        <div style="margin: 30px 0;">
+          <a href="${acceptLink}"
+             style="background-color: #2563eb; color: white; padding: 12px 24px;
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            Accept Invitation
+          </a>
+        </div>
+        <p>This invitation expires in ${expiresInDays} days.</p>
+        <p>If you weren't expecting this, you can ignore this email.</p>
+      </div>
+    `,
+        text: `${inviterName} has invited you to create an account. Accept the invitation here (expires in ${expiresInDays} days): ${acceptLink}`,
+    }),
+
+    /**
+     * Account deletion requested; signing in before the date cancels it
+     */
+    accountDeletionScheduled: (deletionDate: string, loginLink: string): EmailTemplate => ({
+        subject: "Your Account Is Scheduled for Deletion",
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Account Deletion Scheduled</h2>
+        <p>We received a request to delete your account. You have been signed out everywhere, and your account and personal data will be permanently deleted on <strong>${deletionDate}</strong>.</p>
+        <p>Changed your mind? Simply sign in before that date to cancel the deletion:</p>
+        <div style="margin: 30px 0;">
+          <a href="${loginLink}"
+             style="background-color: #2563eb; color: white; padding: 12px 24px;
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            Sign In
+          </a>
+        </div>
+        <p>If you didn't request this, sign in right away and change your password.</p>
+      </div>
+    `,
+        text: `Your account will be permanently deleted on ${deletionDate}. Sign in before then to cancel: ${loginLink}`,
+    }),
+
+    /**
+     * Data export archive is ready to download
+     */
+    dataExportReady: (downloadLink: string, expiresInHours: number): EmailTemplate => ({
+        subject: "Your Data Export Is Ready",
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Your Data Export Is Ready</h2>
+        <p>The copy of your account data you asked for is ready. Click the button below to download it as a zip archive.</p>
+        <div style="margin: 30px 0;">
+          <a href="${downloadLink}"
+             style="background-color: #2563eb; color: white; padding: 12px 24px;
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            Download My Data
+          </a>
+        </div>
+        <p>This link expires in ${expiresInHours} hours. Anyone with the link can download the archive, so don't share it.</p>
+      </div>
+    `,
+        text: `Your data export is ready. Download it here (expires in ${expiresInHours} hours): ${downloadLink}`,
+    }),
 };
 
 export default emailTemplates;
@@ -1,46 +1,57 @@
-import { ExtractJwt, Strategy as JwtStrategy } from "passport-jwt";
-import AppleStrategy from "passport-apple";
-import GoogleStrategy from "passport-google-oauth20";
+import { ExtractJwt } from "passport-jwt";
+import { Strategy } from "passport-strategy";
+import type { Request } from "express";
 import config from "./variables";
 import prisma from "./prisma";
-import httpStatus from "http-status";
 import { tokenType } from "./tokens";
 import passport from "passport";
 import logger from "../utils/logger";
-import ApiError from "../utils/ApiError";
-
-const jwtOptions = {
-  secretOrKey: config.jwt.secret,
-  jwtFromRequest: ExtractJwt.fromExtractors([
-    ExtractJwt.fromAuthHeaderAsBearerToken(),
-    (req: any) => {
-      let token = null;
-      if (req && req.cookies) {
-        token = req.cookies["accessToken"];
-      }
-      return token;
+import jwt from "../utils/jwt";
+import tokenService from "../modules/token/token.service";
+import ApiKeyStrategy from "../modules/apiKey/apiKey.strategy";
+import oauthServerService from "../modules/oauthServer/oauthServer.service";
+import roleService from "../modules/role/role.service";
+import { tokenType as storedTokenType } from "../../generated/prisma/enums";
+
+const extractAccessToken = ExtractJwt.fromExtractors([
+  ExtractJwt.fromAuthHeaderAsBearerToken(),
+  (req: any) => {
+    let token = null;
+    if (req && req.cookies) {
+      token = req.cookies["accessToken"];
+    }
+    return token;
+  },
+]);
+
+/**
+ * An impersonation token stays valid only while the admin who issued it
+ * is still an admin and still signed in to the session that issued it
+ */
+const verifyActor = async (act: { sub: string; sid?: string }) => {
+  const actor = await prisma.user.findUnique({
+    where: { id: act.sub },
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      role: true,
+      isDeleted: true,
+      isRestricted: true,
     },
-  ]),
-};
-
-const appleOptions: AppleStrategy.AuthenticateOptions = {
-  clientID: config.apple.clientId!,
-  teamID: config.apple.teamId!,
-  keyID: config.apple.keyId!,
-  privateKeyString: config.apple.privateKey,
-  callbackURL: config.apple.callbackUrl,
-  passReqToCallback: false,
-};
-
-const googleOptions: GoogleStrategy.StrategyOptions = {
-  clientID: config.google.clientId!,
-  clientSecret: config.google.clientSecret!,
-  callbackURL: config.google.callbackUrl,
+  });
+  if (!actor || actor.isDeleted || actor.isRestricted) return null;
+  if (!(await roleService.roleHasPermission(actor.role, "admin"))) return null;
+  if (act.sid && !(await tokenService.isSessionActive(act.sid))) return null;
+  return actor;
 };
 
 const jwtVerify = async (payload: any, done: any) => {
   try {
-    if (payload.type !== tokenType.ACCESS) {
+    // Tokens issued to third-party apps by the OAuth2 authorization server
+    const isOAuth = payload.type === tokenType.OAUTH_ACCESS;
+    if (payload.type !== tokenType.ACCESS && !isOAuth) {
       logger.warn("Invalid token type attempted", { type: payload.type });
       throw new Error("Invalid token type");
     }
@@ -59,150 +70,95 @@ const jwtVerify = async (payload: any, done: any) => {
       return done(null, false, { message: "User not found" });
     }
 
-    // Additional security checks can be added here:
-    // - Check if user's password was changed after token was issued
-    // - Check if user's role was changed
-    // - Check if user has 2FA enabled and verified
-
-    done(null, user);
-  } catch (error: any) {
-    logger.error("JWT verification error", { error: error.message });
-    done(error, false);
-  }
-};
-
-const googleVerify = async (
-  accessToken: string,
-  refreshToken: string,
-  profile: any,
-  done: any,
-) => {
-  try {
-    const email = profile.emails?.[0]?.value;
-    if (!email) {
-      return done(
-        new ApiError(
-          httpStatus.BAD_REQUEST,
-          "No email found in Google profile",
-        ),
-        false,
-      );
+    // Password resets, role changes and restrictions bump the version
+    if ((payload.tv ?? 0) !== user.tokenVersion) {
+      logger.warn("Access token version revoked", { userId: user.id });
+      return done(null, false, { message: "Token has been revoked" });
     }
-    let user = await prisma.user.findFirst({
-      where: { email },
-    });
-
-    const googleAvatar = profile.photos?.[0]?.value;
-    const defaultAvatar = "/uploads/users/user.png";
-
-    if (user) {
-      const dataToUpdate: any = {};
-      if (!user.googleId) {
-        dataToUpdate.googleId = profile.id;
-      }
-      // Update avatar if user has no avatar or has the default avatar
-      if (googleAvatar && (!user.avatar || user.avatar === defaultAvatar)) {
-        dataToUpdate.avatar = googleAvatar;
-      }
 
-      if (Object.keys(dataToUpdate).length > 0) {
-        user = await prisma.user.update({
-          where: { id: user.id },
-          data: dataToUpdate,
-        });
-      }
-    } else {
-      user = await prisma.user.create({
-        data: {
-          email,
-          googleId: profile.id,
-          firstName: profile.name?.givenName,
-          lastName: profile.name?.familyName,
-          avatar: googleAvatar || defaultAvatar,
-          isEmailVerified: true,
-        },
+    // Logout and session revocation end the session immediately
+    const sessionType = isOAuth
+      ? storedTokenType.oauth_refresh
+      : storedTokenType.refresh;
+    if (
+      payload.sid &&
+      !(await tokenService.isSessionActive(payload.sid, sessionType))
+    ) {
+      logger.warn("Access token for revoked session", {
+        userId: user.id,
+        sessionId: payload.sid,
       });
+      return done(null, false, { message: "Session has been revoked" });
     }
 
-    done(null, user);
-  } catch (error: any) {
-    logger.error("Google verification error", { error: error.message });
-    done(error, false);
-  }
-};
-
-const appleVerify = async (
-  accessToken: string,
-  refreshToken: string,
-  idToken: any,
-  profile: any,
-  done: any,
-) => {
-  try {
-    const email = profile?.email || idToken?.email;
-    const appleId = profile?.id || idToken?.sub;
-
-    if (!email || !appleId) {
-      if (appleId) {
-        const userByAppleId = await prisma.user.findUnique({
-          where: { appleId },
+    if (payload.act) {
+      const actor = await verifyActor(payload.act);
+      if (!actor) {
+        logger.warn("Impersonation token rejected", {
+          userId: user.id,
+          actorId: payload.act.sub,
         });
-        if (userByAppleId) return done(null, userByAppleId);
+        return done(null, false, { message: "Impersonation has ended" });
       }
-      return done(
-        new ApiError(httpStatus.BAD_REQUEST, "No email or Apple ID found"),
-        false,
-      );
+      return done(null, { ...user, impersonatedBy: actor.id, actor });
     }
 
-    let user = await prisma.user.findFirst({
-      where: { email },
-    });
-
-    if (user) {
-      if (!user.appleId) {
-        user = await prisma.user.update({
-          where: { id: user.id },
-          data: { appleId },
+    if (isOAuth) {
+      if (!(await oauthServerService.isClientActive(payload.client_id))) {
+        logger.warn("Access token for revoked OAuth client", {
+          userId: user.id,
+          clientId: payload.client_id,
         });
+        return done(null, false, { message: "Client has been revoked" });
       }
-    } else {
-      user = await prisma.user.create({
-        data: {
-          email,
-          appleId,
-          firstName: profile?.name?.firstName,
-          lastName: profile?.name?.lastName,
-          isEmailVerified: true,
+      // Not a first-party session, so no sessionId
+      return done(null, {
+        ...user,
+        oauthClient: {
+          clientId: payload.client_id,
+          scopes: (payload.scope || "").split(" ").filter(Boolean),
         },
       });
     }
 
-    done(null, user);
+    done(null, { ...user, sessionId: payload.sid });
   } catch (error: any) {
-    logger.error("Apple verification error", { error: error.message });
+    logger.error("JWT verification error", { error: error.message });
     done(error, false);
   }
 };
 
-const jwtStrategy = new JwtStrategy(jwtOptions, jwtVerify);
+/**
+ * Bearer or cookie access tokens. Signatures are checked with the same
+ * jose-based code that signs our tokens, since the jsonwebtoken library
+ * behind passport-jwt cannot verify EdDSA.
+ */
+class JwtStrategy extends Strategy {
+  name = "jwt";
+
+  authenticate(req: Request) {
+    const token = extractAccessToken(req);
+    if (!token) {
+      return this.fail({ message: "No auth token" }, 401);
+    }
 
-passport.use(jwtStrategy);
-if (config.google.clientId && config.google.clientSecret) {
-  const googleStrategy = new GoogleStrategy.Strategy(googleOptions, googleVerify);
-  passport.use(googleStrategy);
-  logger.info("Google OAuth strategy registered");
-} else {
-  logger.warn("Google OAuth credentials not configured - strategy disabled");
+    jwt.verifyToken(token).then(
+      (payload) =>
+        jwtVerify(payload, (error: any, user: any, info?: any) => {
+          if (error) return this.error(error);
+          if (!user) return this.fail(info, 401);
+          this.success(user, info);
+        }),
+      (error) => this.fail({ message: error.message }, 401),
+    );
+  }
 }
 
-if (config.apple.clientId && config.apple.teamId && config.apple.keyId && config.apple.privateKey) {
-  const appleStrategy = new AppleStrategy.Strategy(appleOptions, appleVerify);
-  passport.use(appleStrategy);
-  logger.info("Apple OAuth strategy registered");
-} else {
-  logger.warn("Apple OAuth credentials not configured - strategy disabled");
-}
+const jwtStrategy = new JwtStrategy();
+
+passport.use(jwtStrategy);
+passport.use(new ApiKeyStrategy());
+// OAuth / OIDC strategies are registered on demand by modules/oauth/oauth.registry
 
 export default {
   jwtStrategy,
@@ -2,11 +2,31 @@ interface RoleRights {
   [key: string]: string[];
 }
 
+// Defaults seeded into the Role and Permission tables on startup; more
+// roles are managed at runtime through /roles
 const allRoles: RoleRights = {
-  admin: ["common", "admin"],
+  admin: [
+    "common",
+    "admin",
+    "manageUsers",
+    "manageTransactions",
+    "manageRoles",
+  ],
   user: ["common", "user"],
 };
 
+const permissionDescriptions: Record<string, string> = {
+  common: "Use the app as a signed-in user",
+  admin: "Administer the platform",
+  user: "Regular user features",
+  manageUsers: "List, create, restrict and delete users",
+  manageTransactions: "View all transactions",
+  manageRoles: "Manage roles, permissions and role assignments",
+};
+
+// Given to new accounts unless an invitation says otherwise
+const defaultRole = "user";
+
 const roles = Object.keys(allRoles);
-const roleRights = new Map(Object.entries(allRoles));
-export { roles, roleRights };
+const defaultRoleRights = new Map(Object.entries(allRoles));
+export { roles, defaultRoleRights, permissionDescriptions, defaultRole };
@@ -3,12 +3,18 @@ interface TokenTypes {
   REFRESH: string;
   RESET_PASSWORD?: string;
   VERIFY_EMAIL?: string;
+  MFA_PENDING: string;
+  MAGIC_LINK: string;
+  OAUTH_ACCESS: string;
 }
 const tokenType: TokenTypes = {
   ACCESS: "access",
   REFRESH: "refresh",
   RESET_PASSWORD: "resetPassword",
   VERIFY_EMAIL: "verifyEmail",
+  MFA_PENDING: "mfa_pending",
+  MAGIC_LINK: "magic_link",
+  OAUTH_ACCESS: "oauth_access",
 };
 
 const tokenTypes = [tokenType.ACCESS, tokenType.REFRESH];
@@ -13,7 +13,28 @@ const envSchema = z
     SOCKET_PORT: z.coerce.number().default(3001),
     DATABASE_URL: z.string().optional(),
     NODE_ENV: z.enum(["development", "production"]).default("development"),
-    JWT_SECRET: z.string().min(1).describe("JWT Secret key"),
+    TRUST_PROXY: z
+      .string()
+      .default("false")
+      .describe(
+        "Express trust proxy: true, false, a hop count or proxy addresses",
+      ),
+    JWT_SECRET: z
+      .string()
+      .min(1)
+      .describe("Secret used for legacy HS256 tokens and to encrypt signing keys"),
+    JWT_ALGORITHM: z
+      .enum(["RS256", "EdDSA"])
+      .default("RS256")
+      .describe("Algorithm for newly created signing keys"),
+    JWT_KEY_ROTATION_DAYS: z.coerce
+      .number()
+      .default(90)
+      .describe("Rotate the signing key after this many days (0 disables)"),
+    JWT_ALLOW_LEGACY_HS256: z
+      .enum(["true", "false"])
+      .default("true")
+      .describe("Accept HS256 tokens signed with JWT_SECRET"),
     JWT_ACCESS_EXPIRY: z
       .string()
       .default("3d")
@@ -22,6 +43,200 @@ const envSchema = z
       .string()
       .default("30d")
       .describe("JWT Refresh Expiry time"),
+    JWT_MFA_EXPIRY: z
+      .string()
+      .default("5m")
+      .describe("JWT MFA challenge Expiry time"),
+    MFA_MAX_ATTEMPTS: z.coerce
+      .number()
+      .default(5)
+      .describe("Wrong codes allowed per MFA challenge"),
+    OAUTH_CODE_EXPIRY: z
+      .string()
+      .default("5m")
+      .describe("OAuth2 authorization code Expiry time"),
+    OAUTH_ACCESS_EXPIRY: z
+      .string()
+      .default("1h")
+      .describe("OAuth2 access token Expiry time"),
+    OAUTH_REFRESH_EXPIRY: z
+      .string()
+      .default("30d")
+      .describe("OAuth2 refresh token Expiry time"),
+    IMPERSONATION_EXPIRY: z
+      .string()
+      .default("15m")
+      .describe("Admin impersonation token Expiry time"),
+    REFRESH_TOKEN_HASH_SECRET: z
+      .string()
+      .optional()
+      .describe("Key for hashing stored refresh tokens"),
+    REFRESH_TOKEN_DEVICE_BINDING: z
+      .enum(["true", "false"])
+      .default("false")
+      .describe("Only accept a refresh token from the device it was issued to"),
+    MAGIC_LINK_EXPIRY: z
+      .string()
+      .default("15m")
+      .describe("Magic link Expiry time"),
+    OTP_EXPIRY_MINUTES: z.coerce
+      .number()
+      .default(10)
+      .describe("One-time code Expiry in minutes"),
+    OTP_MAX_ATTEMPTS: z.coerce
+      .number()
+      .default(5)
+      .describe("Wrong guesses allowed per one-time code"),
+    OTP_RESEND_COOLDOWN_SECONDS: z.coerce
+      .number()
+      .default(180)
+      .describe("Minimum delay before a new one-time code can be sent"),
+    EMAIL_CHANGE_REVERT_DAYS: z.coerce
+      .number()
+      .default(7)
+      .describe("Days the old address can undo a confirmed email change"),
+    LOGIN_BACKOFF_AFTER: z.coerce
+      .number()
+      .default(3)
+      .describe("Failed logins before progressive delay starts"),
+    LOGIN_BACKOFF_BASE_SECONDS: z.coerce
+      .number()
+      .default(2)
+      .describe("Initial delay, doubled on every further failure"),
+    LOGIN_BACKOFF_MAX_SECONDS: z.coerce
+      .number()
+      .default(300)
+      .describe("Upper bound for the progressive delay"),
+    LOGIN_LOCK_THRESHOLD: z.coerce
+      .number()
+      .default(10)
+      .describe("Failed logins before an account is locked"),
+    LOGIN_IP_LOCK_THRESHOLD: z.coerce
+      .number()
+      .default(50)
+      .describe("Failed logins before an IP address is locked"),
+    LOGIN_LOCK_MINUTES: z.coerce
+      .number()
+      .default(30)
+      .describe("Temporary lock duration in minutes"),
+    LOGIN_FAILURE_WINDOW_MINUTES: z.coerce
+      .number()
+      .default(60)
+      .describe("Failures older than this are forgotten"),
+    // New device / suspicious login alerts
+    LOGIN_ALERT_ENABLED: z
+      .enum(["true", "false"])
+      .default("true")
+      .describe("Notify users about logins from unfamiliar devices"),
+    LOGIN_ALERT_HEURISTICS: z
+      .string()
+      .default("new_device,new_network,impossible_travel")
+      .describe("Comma separated login heuristics to run"),
+    LOGIN_ALERT_MAX_SPEED_KMH: z.coerce
+      .number()
+      .default(900)
+      .describe("Travel speed between logins considered impossible"),
+    LOGIN_ALERT_REPORT_EXPIRY: z
+      .string()
+      .default("7d")
+      .describe("Validity of the \"this wasn't me\" link"),
+    TRUST_CLOUDFLARE_GEO_HEADERS: z
+      .enum(["true", "false"])
+      .default("false")
+      .describe("Read CF-IP* location headers; only safe behind Cloudflare"),
+    TRUSTED_DEVICE_DAYS: z.coerce
+      .number()
+      .default(30)
+      .describe("Days a device stays trusted after a strong login"),
+    REAUTH_MAX_AGE_SECONDS: z.coerce
+      .number()
+      .default(300)
+      .describe("How long a password or 2FA confirmation unlocks sensitive actions"),
+    INVITATION_EXPIRY_DAYS: z.coerce
+      .number()
+      .default(7)
+      .describe("Days an invitation link stays valid"),
+    INVITE_ONLY_REGISTRATION: z
+      .enum(["true", "false"])
+      .default("false")
+      .describe("Require a valid invitation to register"),
+    ACCOUNT_DELETION_GRACE_DAYS: z.coerce
+      .number()
+      .default(30)
+      .describe("Days before a deleted account is purged"),
+    ACCOUNT_PURGE_INTERVAL_MINUTES: z.coerce
+      .number()
+      .default(60)
+      .describe("Minutes between purge runs (0 disables)"),
+    DATA_EXPORT_DIR: z
+      .string()
+      .default("./storage/exports")
+      .describe("Where data export archives are written (not public)"),
+    DATA_EXPORT_LINK_HOURS: z.coerce
+      .number()
+      .default(48)
+      .describe("Hours a data export download link stays valid"),
+    ROLE_CACHE_TTL_SECONDS: z.coerce
+      .number()
+      .default(60)
+      .describe("How long role permissions are cached in memory"),
+    // Password Policy
+    PASSWORD_MIN_LENGTH: z.coerce
+      .number()
+      .default(8)
+      .describe("Minimum password length"),
+    PASSWORD_REQUIRE_LETTER: z
+      .enum(["true", "false"])
+      .default("true")
+      .describe("Require at least one letter"),
+    PASSWORD_REQUIRE_UPPERCASE: z
+      .enum(["true", "false"])
+      .default("false")
+      .describe("Require at least one uppercase letter"),
+    PASSWORD_REQUIRE_LOWERCASE: z
+      .enum(["true", "false"])
+      .default("false")
+      .describe("Require at least one lowercase letter"),
+    PASSWORD_REQUIRE_DIGIT: z
+      .enum(["true", "false"])
+      .default("true")
+      .describe("Require at least one number"),
+    PASSWORD_REQUIRE_SYMBOL: z
+      .enum(["true", "false"])
+      .default("false")
+      .describe("Require at least one symbol"),
+    PASSWORD_HISTORY_COUNT: z.coerce
+      .number()
+      .default(5)
+      .describe("Number of previous passwords that cannot be reused"),
+    PASSWORD_BREACHED_HASHES_DIR: z
+      .string()
+      .optional()
+      .describe(
+        "Directory of SHA-1 range files (PREFIX.txt) of breached passwords",
+      ),
+    PASSWORD_HASH_ALGORITHM: z
+      .enum(["argon2id", "bcrypt"])
+      .default("argon2id")
+      .describe("Algorithm used for new password hashes"),
+    BCRYPT_ROUNDS: z.coerce
+      .number()
+      .min(10)
+      .max(15)
+      .default(12)
+      .describe("bcrypt cost factor"),
+    ARGON2_MEMORY_COST: z.coerce
+      .number()
+      .default(19456)
+      .describe("argon2id memory cost in KiB"),
+    ARGON2_TIME_COST: z.coerce
+      .number()
+      .default(2)
+      .describe("argon2id iterations"),
+    ARGON2_PARALLELISM: z.coerce
+      .number()
+      .default(1)
+      .describe("argon2id parallelism"),
     SMTP_HOST: z.string().min(1).describe("SMTP Host"),
     SMTP_PORT: z.coerce.number().describe("SMTP Port"),
     SMTP_USERNAME: z.string().min(1).describe("SMTP Username"),
@@ -90,6 +305,53 @@ const envSchema = z
     APPLE_TEAM_ID: z.string().optional().describe("Apple Team ID"),
     APPLE_KEY_ID: z.string().optional().describe("Apple Key ID"),
     APPLE_PRIVATE_KEY: z.string().optional().describe("Apple Private Key"),
+    // Additional OAuth / OIDC providers
+    GITHUB_CLIENT_ID: z.string().optional().describe("GitHub Client ID"),
+    GITHUB_CLIENT_SECRET: z
+      .string()
+      .optional()
+      .describe("GitHub Client Secret"),
+    MICROSOFT_CLIENT_ID: z
+      .string()
+      .optional()
+      .describe("Microsoft Entra Client ID"),
+    MICROSOFT_CLIENT_SECRET: z
+      .string()
+      .optional()
+      .describe("Microsoft Entra Client Secret"),
+    MICROSOFT_TENANT: z
+      .string()
+      .default("common")
+      .describe("Microsoft Entra tenant (common, organizations or a tenant ID)"),
+    OIDC_PROVIDERS: z
+      .string()
+      .default("[]")
+      .transform((raw) => JSON.parse(raw))
+      .pipe(
+        z.array(
+          z.object({
+            name: z.string().regex(/^[a-z0-9-]+$/),
+            issuer: z.string().url(),
+            clientId: z.string(),
+            clientSecret: z.string().optional(),
+            scope: z.string().default("openid email profile"),
+          }),
+        ),
+      )
+      .describe("JSON array of discovery-based OIDC providers"),
+    // WebAuthn / Passkeys
+    WEBAUTHN_RP_ID: z
+      .string()
+      .default("localhost")
+      .describe("WebAuthn Relying Party ID (domain)"),
+    WEBAUTHN_RP_NAME: z
+      .string()
+      .optional()
+      .describe("WebAuthn Relying Party display name"),
+    WEBAUTHN_ORIGINS: z
+      .string()
+      .optional()
+      .describe("Comma separated origins allowed for WebAuthn ceremonies"),
   })
   .passthrough();
 
@@ -116,12 +378,99 @@ const env = {
   ENVIRONMENT: value.NODE_ENV,
   DEBUG: value.NODE_ENV === "development",
   IS_MULTI_LANGUAGE: value.IS_MULTI_LANGUAGE,
+  trustProxy:
+    value.TRUST_PROXY === "true" ||
+    (value.TRUST_PROXY !== "false" &&
+      (/^\d+$/.test(value.TRUST_PROXY)
+        ? Number(value.TRUST_PROXY)
+        : value.TRUST_PROXY)),
   jwt: {
     secret: value.JWT_SECRET,
     expiryAccessToken: value.JWT_ACCESS_EXPIRY,
     expiryRefreshToken: value.JWT_REFRESH_EXPIRY,
+    expiryMfaToken: value.JWT_MFA_EXPIRY,
+    expiryMagicLinkToken: value.MAGIC_LINK_EXPIRY,
+    expiryImpersonationToken: value.IMPERSONATION_EXPIRY,
+    refreshTokenHashSecret: value.REFRESH_TOKEN_HASH_SECRET ?? value.JWT_SECRET,
+    refreshTokenDeviceBinding: value.REFRESH_TOKEN_DEVICE_BINDING === "true",
     issuer: value.APP_NAME,
     audience: value.APP_NAME,
+    algorithm: value.JWT_ALGORITHM,
+    rotationDays: value.JWT_KEY_ROTATION_DAYS,
+    allowLegacyHs256: value.JWT_ALLOW_LEGACY_HS256 === "true",
+  },
+  otp: {
+    expiryMinutes: value.OTP_EXPIRY_MINUTES,
+    maxAttempts: value.OTP_MAX_ATTEMPTS,
+    resendCooldownSeconds: value.OTP_RESEND_COOLDOWN_SECONDS,
+  },
+  twoFactor: {
+    maxAttempts: value.MFA_MAX_ATTEMPTS,
+  },
+  emailChange: {
+    revertDays: value.EMAIL_CHANGE_REVERT_DAYS,
+  },
+  login: {
+    backoffAfter: value.LOGIN_BACKOFF_AFTER,
+    backoffBaseSeconds: value.LOGIN_BACKOFF_BASE_SECONDS,
+    backoffMaxSeconds: value.LOGIN_BACKOFF_MAX_SECONDS,
+    lockThreshold: value.LOGIN_LOCK_THRESHOLD,
+    ipLockThreshold: value.LOGIN_IP_LOCK_THRESHOLD,
+    lockMinutes: value.LOGIN_LOCK_MINUTES,
+    failureWindowMinutes: value.LOGIN_FAILURE_WINDOW_MINUTES,
+  },
+  loginAlert: {
+    enabled: value.LOGIN_ALERT_ENABLED === "true",
+    heuristics: value.LOGIN_ALERT_HEURISTICS.split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+    maxSpeedKmh: value.LOGIN_ALERT_MAX_SPEED_KMH,
+    reportExpiry: value.LOGIN_ALERT_REPORT_EXPIRY,
+    trustCloudflareGeo: value.TRUST_CLOUDFLARE_GEO_HEADERS === "true",
+  },
+  trustedDevice: {
+    days: value.TRUSTED_DEVICE_DAYS,
+  },
+  oauthServer: {
+    codeExpiry: value.OAUTH_CODE_EXPIRY,
+    accessExpiry: value.OAUTH_ACCESS_EXPIRY,
+    refreshExpiry: value.OAUTH_REFRESH_EXPIRY,
+  },
+  reauth: {
+    maxAgeSeconds: value.REAUTH_MAX_AGE_SECONDS,
+  },
+  invitation: {
+    expiryDays: value.INVITATION_EXPIRY_DAYS,
+    inviteOnly: value.INVITE_ONLY_REGISTRATION === "true",
+  },
+  dataExport: {
+    dir: value.DATA_EXPORT_DIR,
+    linkHours: value.DATA_EXPORT_LINK_HOURS,
+  },
+  roles: {
+    cacheTtlSeconds: value.ROLE_CACHE_TTL_SECONDS,
+  },
+  accountDeletion: {
+    graceDays: value.ACCOUNT_DELETION_GRACE_DAYS,
+    purgeIntervalMinutes: value.ACCOUNT_PURGE_INTERVAL_MINUTES,
+  },
+  passwordPolicy: {
+    minLength: value.PASSWORD_MIN_LENGTH,
+    maxLength: 128,
+    requireLetter: value.PASSWORD_REQUIRE_LETTER === "true",
+    requireUppercase: value.PASSWORD_REQUIRE_UPPERCASE === "true",
+    requireLowercase: value.PASSWORD_REQUIRE_LOWERCASE === "true",
+    requireDigit: value.PASSWORD_REQUIRE_DIGIT === "true",
+    requireSymbol: value.PASSWORD_REQUIRE_SYMBOL === "true",
+    historyCount: value.PASSWORD_HISTORY_COUNT,
+    breachedHashesDir: value.PASSWORD_BREACHED_HASHES_DIR,
+  },
+  passwordHash: {
+    algorithm: value.PASSWORD_HASH_ALGORITHM,
+    bcryptRounds: value.BCRYPT_ROUNDS,
+    argon2MemoryCost: value.ARGON2_MEMORY_COST,
+    argon2TimeCost: value.ARGON2_TIME_COST,
+    argon2Parallelism: value.ARGON2_PARALLELISM,
   },
   email: {
     provider: {
@@ -189,5 +538,25 @@ const env = {
       : undefined,
     callbackUrl: backendUrl + "/api/v1/auth/oauth/callback/apple",
   },
+  oauth: {
+    callbackBaseUrl: backendUrl + "/api/v1/auth/oauth/callback",
+    github: {
+      clientId: value.GITHUB_CLIENT_ID,
+      clientSecret: value.GITHUB_CLIENT_SECRET,
+    },
+    microsoft: {
+      clientId: value.MICROSOFT_CLIENT_ID,
+      clientSecret: value.MICROSOFT_CLIENT_SECRET,
+      tenant: value.MICROSOFT_TENANT,
+    },
+    oidc: value.OIDC_PROVIDERS,
+  },
+  webauthn: {
+    rpId: value.WEBAUTHN_RP_ID,
+    rpName: value.WEBAUTHN_RP_NAME || value.APP_NAME,
+    origins: (value.WEBAUTHN_ORIGINS || value.FRONTEND_URL)
+      .split(",")
+      .map((origin) => origin.trim()),
+  },
 };
 export default env;
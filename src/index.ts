@@ -5,11 +5,16 @@ import logger from "./utils/logger";
 import env from "./configs/variables";
 // import database from "./configs/database";
 import socketIO from "./utils/socket";
+import accountDeletionService from "./modules/accountDeletion/accountDeletion.service";
+import roleService from "./modules/role/role.service";
 
 let server = http.createServer(app);
 const startServer = async () => {
   try {
     // await database.connect();
+    // New users reference the default role, so it must exist first
+    await roleService.ensureDefaultRoles();
+
     let io;
     if (env.DEBUG) {
       // Development: Separate socket server on different port
@@ -38,6 +43,8 @@ const startServer = async () => {
     global.io = io;
     socketIO(io);
 
+    accountDeletionService.startPurgeJob();
+
     server.listen(env.PORT, env.BACKEND_IP, () => {
       logger.success(
         `API Server running on http://${env.BACKEND_IP}:${env.PORT}`
@@ -1,10 +1,11 @@
 import httpStatus from "http-status";
 import ApiError from "../utils/ApiError";
-import { roleRights } from "../configs/roles";
 import type { Request, Response, NextFunction } from "express";
 import passport from "passport";
 import logger from "../utils/logger";
 import i18n from "../utils/i18n";
+import { hasValidCsrfToken, isCookieAuthenticated } from "../utils/csrf";
+import roleService from "../modules/role/role.service";
 
 const verifyCallback =
   (
@@ -46,11 +47,43 @@ const verifyCallback =
         );
       }
 
-      req.user = user;
+      // Cookie sessions are sent by the browser on cross-site requests too
+      if (isCookieAuthenticated(req) && !hasValidCsrfToken(req)) {
+        logger.warn("CSRF token check failed", {
+          userId: user.id,
+          method: req.method,
+          path: req.originalUrl,
+        });
+        return reject(
+          new ApiError(httpStatus.FORBIDDEN, req.str("auth.csrf_invalid"))
+        );
+      }
+
+      const { actor, ...effectiveUser } = user;
+      req.user = effectiveUser;
+      req.actor = actor ?? effectiveUser;
+
+      if (effectiveUser.impersonatedBy) {
+        logger.info("Impersonated request", {
+          actorId: effectiveUser.impersonatedBy,
+          userId: effectiveUser.id,
+          method: req.method,
+          path: req.originalUrl,
+          ip: req.device?.ip,
+        });
+      }
 
       // Then check permissions
       if (requiredRights.length > 0) {
-        const userRights = await getUserPermissions(user);
+        let userRights = await getUserPermissions(user);
+        // API keys and OAuth2 tokens only carry the scopes they were granted
+        const grantedScopes: string[] | undefined =
+          user.apiKey?.scopes ?? user.oauthClient?.scopes;
+        if (grantedScopes) {
+          userRights = userRights.filter((right) =>
+            grantedScopes.includes(right)
+          );
+        }
         const hasRequiredRights = requiredRights.some((right) =>
           userRights.includes(right)
         );
@@ -59,7 +92,9 @@ const verifyCallback =
           logger.warn("Insufficient permissions", {
             userId: user.id,
             required: requiredRights,
-            has: userRights
+            has: userRights,
+            apiKeyId: user.apiKey?.id,
+            oauthClientId: user.oauthClient?.clientId
           });
           return reject(new ApiError(httpStatus.FORBIDDEN, i18n.t("auth.forbidden")));
         }
@@ -69,7 +104,7 @@ const verifyCallback =
     };
 
 const getUserPermissions = async (user: any): Promise<string[]> => {
-  return roleRights.get(user.role) || [];
+  return await roleService.getRolePermissions(user.role);
 };
 
 const auth =
@@ -77,7 +112,7 @@ const auth =
     async (req: Request, res: Response, next: NextFunction) => {
       return new Promise<void>((resolve, reject) => {
         passport.authenticate(
-          "jwt",
+          ["jwt", "apiKey"],
           { session: false },
           verifyCallback(req, resolve, reject, requiredRights)
         )(req, res, (err?: any) => {
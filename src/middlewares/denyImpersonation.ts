@@ -0,0 +1,25 @@
+import httpStatus from "http-status";
+import type { Request, Response, NextFunction } from "express";
+import ApiError from "../utils/ApiError";
+import logger from "../utils/logger";
+
+/**
+ * Use after `auth()` on routes an impersonating admin must never reach
+ * (password, email and payment changes, second factors, passkeys and
+ * sessions)
+ */
+const denyImpersonation = (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.impersonatedBy) {
+    logger.warn("Blocked action while impersonating", {
+      actorId: req.user.impersonatedBy,
+      userId: req.user.id,
+      path: req.originalUrl,
+    });
+    return next(
+      new ApiError(httpStatus.FORBIDDEN, req.str("auth.impersonation_forbidden"))
+    );
+  }
+  next();
+};
+
+export default denyImpersonation;
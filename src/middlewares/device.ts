@@ -3,6 +3,7 @@ import crypto from "crypto";
 import { DeviceInfo } from "../types/express";
 import ApiError from "../utils/ApiError";
 import httpStatus from "http-status";
+import env from "../configs/variables";
 
 /*
 SHOULD ALLOW BOT
@@ -23,8 +24,8 @@ const deviceMiddleware = (req: Request, _res: Response, next: NextFunction) => {
     port = host.split(":")[1];
   }
 
-  // Get real IP (considering proxies)
-  const ip = getRealIp(req);
+  // Express resolves the client IP from the trusted proxies only
+  const ip = req.ip;
 
   // Parse user agent for device details
   const parsedUA = parseUserAgent(userAgent);
@@ -89,6 +90,8 @@ const deviceMiddleware = (req: Request, _res: Response, next: NextFunction) => {
 
     // Additional headers
     headers,
+
+    geo: getGeo(req),
   };
 
   if (SHOULD_ALLOW_BOT && parsedUA.isBot) {
@@ -99,27 +102,25 @@ const deviceMiddleware = (req: Request, _res: Response, next: NextFunction) => {
 };
 
 /**
- * Get real IP address considering various proxy headers
+ * Location headers added by Cloudflare's "visitor location" transform.
+ * Any client can send them, so they are ignored unless the app is
+ * configured to sit behind Cloudflare.
  */
-function getRealIp(req: Request): string | undefined {
-  // Check common proxy headers in order of preference
-  const cfConnectingIp = req.get("CF-Connecting-IP"); // Cloudflare
-  if (cfConnectingIp) return cfConnectingIp;
-
-  const xRealIp = req.get("X-Real-IP");
-  if (xRealIp) return xRealIp;
-
-  const xForwardedFor = req.get("X-Forwarded-For");
-  if (xForwardedFor) {
-    // X-Forwarded-For can contain multiple IPs, take the first one
-    return xForwardedFor.split(",")[0].trim();
-  }
+function getGeo(req: Request): DeviceInfo["geo"] {
+  if (!env.loginAlert.trustCloudflareGeo) return undefined;
 
-  const xClientIp = req.get("X-Client-IP");
-  if (xClientIp) return xClientIp;
+  const latitude = parseFloat(req.get("CF-IPLatitude") || "");
+  const longitude = parseFloat(req.get("CF-IPLongitude") || "");
+  const country = req.get("CF-IPCountry");
+  const city = req.get("CF-IPCity");
 
-  // Fallback to Express's req.ip
-  return req.ip;
+  if (!country && !city && Number.isNaN(latitude)) return undefined;
+  return {
+    country,
+    city,
+    latitude: Number.isNaN(latitude) ? undefined : latitude,
+    longitude: Number.isNaN(longitude) ? undefined : longitude,
+  };
 }
 
 /**
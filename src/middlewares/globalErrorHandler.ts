@@ -1,6 +1,6 @@
 import env from "../configs/variables";
 import httpStatus from "http-status";
-import ApiError from "../utils/ApiError";
+import ApiError, { type ApiErrorDetail } from "../utils/ApiError";
 import logger from "../utils/logger";
 import type { Request, Response, NextFunction } from "express";
 
@@ -29,6 +29,9 @@ const errorHandler = (
   next: NextFunction,
 ) => {
   let { status, message } = err;
+  if (err.key && req.str) {
+    message = req.str(err.key);
+  }
 
   if (env.DEBUG && !err.isOperational) {
     status = httpStatus.INTERNAL_SERVER_ERROR;
@@ -37,10 +40,21 @@ const errorHandler = (
 
   res.locals.errorMessage = err.message;
 
+  // Structured details (e.g. password policy violations), localized per request
+  const errors = err.errors?.map((detail: ApiErrorDetail) => ({
+    field: detail.field,
+    rule: detail.rule,
+    message:
+      detail.key && req.str
+        ? req.str(detail.key, detail.params)
+        : detail.message,
+  }));
+
   const response = {
     success: false,
     status,
     message,
+    ...(errors?.length && { errors }),
     ...(env.DEBUG && { stack: err.stack }),
   };
 
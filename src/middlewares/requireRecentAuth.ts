@@ -0,0 +1,55 @@
+import httpStatus from "http-status";
+import type { Request, Response, NextFunction } from "express";
+import ApiError from "../utils/ApiError";
+import env from "../configs/variables";
+import logger from "../utils/logger";
+import tokenService from "../modules/token/token.service";
+
+/**
+ * Use after `auth()` on sensitive routes. Passes only when the session
+ * confirmed the password or a second factor within `maxAgeSeconds`
+ * (signing in counts); clients react to the `reauthentication_required`
+ * rule by calling `/auth/reauthenticate` and retrying.
+ */
+const requireRecentAuth =
+  (maxAgeSeconds: number = env.reauth.maxAgeSeconds) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const sessionId = req.user?.sessionId;
+        const authenticatedAt = sessionId
+          ? await tokenService.getSessionAuthenticatedAt(sessionId)
+          : null;
+
+        if (
+          authenticatedAt &&
+          Date.now() - authenticatedAt.getTime() <= maxAgeSeconds * 1000
+        ) {
+          return next();
+        }
+
+        logger.warn("Recent authentication required", {
+          userId: req.user?.id,
+          sessionId,
+          path: req.originalUrl,
+        });
+        next(
+          new ApiError(
+            httpStatus.FORBIDDEN,
+            req.str("auth.reauthentication_required"),
+            true,
+            "",
+            [
+              {
+                rule: "reauthentication_required",
+                key: "auth.reauthentication_required",
+                params: { maxAgeSeconds },
+              },
+            ],
+          )
+        );
+      } catch (error) {
+        next(error);
+      }
+    };
+
+export default requireRecentAuth;
@@ -0,0 +1,31 @@
+import httpStatus from "http-status";
+import type { Request, Response, NextFunction } from "express";
+import ApiError from "../utils/ApiError";
+import logger from "../utils/logger";
+
+/**
+ * Use after `auth()` on routes that only the user in person may reach
+ * (granting consent, managing credentials and sessions). API keys and
+ * OAuth tokens carry delegated rights, so they must not be able to hand
+ * out new ones or add a way to sign in.
+ */
+const requireUserSession = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.user?.apiKey || req.user?.oauthClient || !req.user?.sessionId) {
+    logger.warn("Blocked delegated credential on a user-only route", {
+      userId: req.user?.id,
+      apiKeyId: req.user?.apiKey?.id,
+      clientId: req.user?.oauthClient?.clientId,
+      path: req.originalUrl,
+    });
+    return next(
+      new ApiError(httpStatus.FORBIDDEN, req.str("auth.user_session_required"))
+    );
+  }
+  next();
+};
+
+export default requireUserSession;
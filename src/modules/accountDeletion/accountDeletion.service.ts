@@ -0,0 +1,142 @@
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import emailHelper from "../../configs/email";
+import ApiError from "../../utils/ApiError";
+import fs from "../../utils/fs";
+import logger from "../../utils/logger";
+import tokenService from "../token/token.service";
+import trustedDeviceService from "../trustedDevice/trustedDevice.service";
+import lockoutService from "../lockout/lockout.service";
+import dataExportService from "../dataExport/dataExport.service";
+
+// Accounts purged per run, so one run never holds the database for long
+const PURGE_BATCH_SIZE = 50;
+
+const gracePeriodEnd = () =>
+  new Date(Date.now() + env.accountDeletion.graceDays * 24 * 60 * 60 * 1000);
+
+/**
+ * End every session, OAuth grant, API key and trusted device of an
+ * account that is being deleted
+ */
+const signOutEverywhere = async (userId: string, reason: string) => {
+  await tokenService.bumpTokenVersion(userId, reason);
+  await trustedDeviceService.revokeAllForUser(userId, reason);
+};
+
+/**
+ * Self-service deletion: sign the user out everywhere now and purge the
+ * account once the grace period ends, unless they sign in before that
+ */
+const scheduleDeletion = async (userId: string) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isDeleted: false },
+    select: { id: true, email: true },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+
+  const deletionScheduledFor = gracePeriodEnd();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionRequestedAt: new Date(), deletionScheduledFor },
+  });
+
+  await signOutEverywhere(userId, "Account deletion requested");
+
+  const loginLink = `${env.FRONTEND_URL}/login`;
+  setImmediate(() => {
+    emailHelper
+      .sendAccountDeletionScheduledEmail(
+        user.email,
+        deletionScheduledFor.toUTCString(),
+        loginLink,
+      )
+      .catch((err) =>
+        logger.error("Error sending account deletion notice: " + err),
+      );
+  });
+
+  logger.warn("Account deletion scheduled", { userId, deletionScheduledFor });
+  return { deletionScheduledFor };
+};
+
+/**
+ * Remove the user row, and with it every cascaded record holding their
+ * data. Transactions stay for bookkeeping with their user unset.
+ */
+const purgeAccount = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, avatar: true },
+  });
+  if (!user) return false;
+
+  await dataExportService.deleteExportsForUser(user.id);
+  await prisma.$transaction([
+    prisma.invitation.deleteMany({ where: { email: user.email } }),
+    prisma.user.delete({ where: { id: user.id } }),
+  ]);
+  await lockoutService.recordSuccess(user.email);
+
+  // The default avatar is shared; only uploaded files are the user's
+  if (user.avatar?.startsWith(env.BACKEND_URL + "/public")) {
+    await fs.deleteLocalFile(user.avatar);
+  }
+
+  logger.warn("Account purged", { userId });
+  return true;
+};
+
+const purgeDueAccounts = async () => {
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: new Date() } },
+    select: { id: true },
+    take: PURGE_BATCH_SIZE,
+  });
+
+  let purged = 0;
+  for (const { id } of due) {
+    try {
+      if (await purgeAccount(id)) purged++;
+    } catch (error: any) {
+      logger.error("Account purge failed", {
+        userId: id,
+        error: error.message,
+      });
+    }
+  }
+  if (purged > 0) {
+    logger.info("Deleted accounts purged", { count: purged });
+  }
+  return purged;
+};
+
+let purgeTimer: NodeJS.Timeout | undefined;
+
+const startPurgeJob = () => {
+  const minutes = env.accountDeletion.purgeIntervalMinutes;
+  if (minutes <= 0 || purgeTimer) return;
+
+  purgeTimer = setInterval(
+    () => {
+      purgeDueAccounts().catch((error) =>
+        logger.error("Account purge job failed", { error: error.message }),
+      );
+    },
+    minutes * 60 * 1000,
+  );
+  // Never keep the process alive just for the job
+  purgeTimer.unref();
+};
+
+export default {
+  gracePeriodEnd,
+  signOutEverywhere,
+  scheduleDeletion,
+  purgeAccount,
+  purgeDueAccounts,
+  startPurgeJob,
+};
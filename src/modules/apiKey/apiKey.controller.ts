@@ -0,0 +1,46 @@
+import catchAsync from "../../utils/catchAsync";
+import type { Request, Response } from "express";
+import httpStatus from "http-status";
+import response from "../../utils/response";
+import apiKeyService from "./apiKey.service";
+
+const createApiKey = catchAsync(async (req: Request, res: Response) => {
+  const apiKey = await apiKeyService.createApiKey(req.user?.id!, req.body);
+  res.status(httpStatus.CREATED).json(
+    response({
+      status: httpStatus.CREATED,
+      message: req.str("auth.api_key_created"),
+      data: apiKey,
+    }),
+  );
+});
+
+const listApiKeys = catchAsync(async (req: Request, res: Response) => {
+  const apiKeys = await apiKeyService.listApiKeys(req.user?.id!);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.api_keys_retrieved"),
+      data: apiKeys,
+    }),
+  );
+});
+
+const revokeApiKey = catchAsync(async (req: Request, res: Response) => {
+  await apiKeyService.revokeApiKey(
+    req.user?.id!,
+    req.params.apiKeyId as string,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.api_key_revoked"),
+    }),
+  );
+});
+
+export default {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+};
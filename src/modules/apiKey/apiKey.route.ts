@@ -0,0 +1,33 @@
+import express, { Router } from "express";
+import auth from "../../middlewares/auth";
+import requireRecentAuth from "../../middlewares/requireRecentAuth";
+import denyImpersonation from "../../middlewares/denyImpersonation";
+import requireUserSession from "../../middlewares/requireUserSession";
+import validate from "../../middlewares/validate";
+import apiKeyController from "./apiKey.controller";
+import apiKeyValidation from "./apiKey.validation";
+
+const router: Router = express.Router();
+
+router
+  .route("/")
+  .get(auth("common"), apiKeyController.listApiKeys)
+  // New long-lived credentials need a fresh sign-in, which also keeps
+  // API keys from minting further keys
+  .post(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    requireRecentAuth(),
+    validate(apiKeyValidation.createApiKey),
+    apiKeyController.createApiKey,
+  );
+
+router.delete(
+  "/:apiKeyId",
+  auth("common"),
+  validate(apiKeyValidation.revokeApiKey),
+  apiKeyController.revokeApiKey,
+);
+
+export default router;
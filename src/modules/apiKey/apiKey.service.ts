@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import ApiError from "../../utils/ApiError";
+import logger from "../../utils/logger";
+import roleService from "../role/role.service";
+
+const KEY_PREFIX = "ak";
+// Last-used details are written at most this often per key
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+const hashKey = (key: string) => {
+  return crypto.createHash("sha256").update(key).digest("hex");
+};
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  createdAt: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+};
+
+/**
+ * Keys look like `ak_<prefix>_<secret>`. The plain key is returned
+ * here only; afterwards just its hash is known.
+ */
+const createApiKey = async (
+  userId: string,
+  opts: { name: string; scopes: string[]; expiresInDays: number },
+) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isDeleted: false },
+    select: { role: true },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+
+  // A key can never do more than its owner
+  const rights = await roleService.getRolePermissions(user.role);
+  const invalid = opts.scopes.filter((scope) => !rights.includes(scope));
+  if (invalid.length > 0) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      `Scopes not allowed for your role: ${invalid.join(", ")}`,
+    );
+  }
+
+  const prefix = crypto.randomBytes(6).toString("hex");
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const key = `${KEY_PREFIX}_${prefix}_${secret}`;
+
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + opts.expiresInDays);
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      userId,
+      name: opts.name,
+      prefix,
+      keyHash: hashKey(key),
+      scopes: [...new Set(opts.scopes)],
+      expiresAt,
+    },
+    select: apiKeySelect,
+  });
+
+  logger.info("API key created", {
+    userId,
+    apiKeyId: apiKey.id,
+    scopes: apiKey.scopes,
+  });
+  return { ...apiKey, key };
+};
+
+const listApiKeys = async (userId: string) => {
+  return await prisma.apiKey.findMany({
+    where: { userId, revokedAt: null },
+    select: apiKeySelect,
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+const revokeApiKey = async (userId: string, apiKeyId: string) => {
+  const result = await prisma.apiKey.updateMany({
+    where: { id: apiKeyId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (result.count === 0) {
+    throw new ApiError(httpStatus.NOT_FOUND, "API key not found");
+  }
+  logger.info("API key revoked", { userId, apiKeyId });
+  return true;
+};
+
+const revokeAllForUser = async (userId: string) => {
+  const result = await prisma.apiKey.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (result.count > 0) {
+    logger.info("API keys revoked", { userId, count: result.count });
+  }
+  return true;
+};
+
+/**
+ * Resolve a presented key to its owner, or `null` when it is unknown,
+ * revoked or expired, or its owner is restricted or deleted
+ */
+const verifyApiKey = async (key: string, ipAddress?: string) => {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashKey(key) },
+    include: { user: true },
+  });
+  if (!apiKey || apiKey.revokedAt || apiKey.expiresAt < new Date()) {
+    return null;
+  }
+  if (apiKey.user.isDeleted || apiKey.user.isRestricted) {
+    return null;
+  }
+
+  const stale =
+    !apiKey.lastUsedAt ||
+    Date.now() - apiKey.lastUsedAt.getTime() > TOUCH_INTERVAL_MS;
+  if (stale || apiKey.lastUsedIp !== (ipAddress ?? null)) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ipAddress },
+    });
+  }
+
+  return {
+    ...apiKey.user,
+    apiKey: { id: apiKey.id, scopes: apiKey.scopes },
+  };
+};
+
+export default {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  revokeAllForUser,
+  verifyApiKey,
+};
@@ -0,0 +1,33 @@
+import { Strategy } from "passport-strategy";
+import type { Request } from "express";
+import logger from "../../utils/logger";
+import apiKeyService from "./apiKey.service";
+
+const SCHEME = /^ApiKey\s+(\S+)$/i;
+
+/**
+ * Accepts `Authorization: ApiKey <key>` next to the JWT strategy
+ */
+class ApiKeyStrategy extends Strategy {
+  name = "apiKey";
+
+  authenticate(req: Request) {
+    const match = SCHEME.exec(req.get("Authorization") || "");
+    if (!match) {
+      return this.fail({ message: "No API key" }, 401);
+    }
+
+    apiKeyService
+      .verifyApiKey(match[1]!, req.device?.ip)
+      .then((user) => {
+        if (!user) {
+          logger.warn("Invalid API key used", { ip: req.device?.ip });
+          return this.fail({ message: "Invalid API key" }, 401);
+        }
+        this.success(user);
+      })
+      .catch((error) => this.error(error));
+  }
+}
+
+export default ApiKeyStrategy;
@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+const createApiKey = {
+  body: z.object({
+    name: z.string().trim().min(1).max(100),
+    scopes: z.array(z.string()).min(1),
+    expiresInDays: z.number().int().min(1).max(365).default(90),
+  }),
+};
+
+const revokeApiKey = {
+  params: z.object({
+    apiKeyId: z.string().uuid(),
+  }),
+};
+
+export default {
+  createApiKey,
+  revokeApiKey,
+};
@@ -10,6 +10,12 @@ import { IUser } from "../user/user.interface";
 import logger from "../../utils/logger";
 import passport from "passport";
 import variables from "../../configs/variables";
+import twoFactorService from "../twoFactor/twoFactor.service";
+import lockoutService from "../lockout/lockout.service";
+import oauthRegistry from "../oauth/oauth.registry";
+import loginAlertService from "../loginAlert/loginAlert.service";
+import trustedDeviceService from "../trustedDevice/trustedDevice.service";
+import { CSRF_COOKIE, hasValidCsrfToken } from "../../utils/csrf";
 
 const register = catchAsync(async (req: Request, res: Response) => {
   await authService.register(req.body);
@@ -25,7 +31,30 @@ const login = catchAsync(async (req: Request, res: Response) => {
   const { email, password, fcmToken, rememberMe = false } = req.body;
 
   // Authenticate user
-  const user = await authService.login(email, password);
+  const user = await authService.login(email, password, req.device);
+
+  // Password is correct but a second factor is still required,
+  // unless this device was trusted after an earlier strong login
+  const trustedDevice = await trustedDeviceService.isTrusted(
+    user?.id!,
+    trustedDeviceService.getDeviceSecret(req),
+  );
+  if (user?.twoFactorEnabled && !trustedDevice) {
+    const mfaToken = await twoFactorService.createChallenge(user.id);
+    return res.status(httpStatus.OK).json(
+      response({
+        status: httpStatus.OK,
+        message: req.str("auth.mfa_required"),
+        type: "mfa_pending",
+        token: { mfa: mfaToken },
+      }),
+    );
+  }
+
+  // A trusted device stands in for the second factor
+  if (user?.twoFactorEnabled) {
+    await lockoutService.recordSuccess(user.email);
+  }
 
   // Generate tokens with enhanced device information
   const token = await tokenService.generateLoginTokens({
@@ -35,6 +64,7 @@ const login = catchAsync(async (req: Request, res: Response) => {
     userAgent: req.device?.userAgent,
     ipAddress: req.device?.ip,
     rememberMe: rememberMe,
+    trustedDevice,
     metadata: {
       fingerprint: req.device?.fingerprint,
       deviceType: req.device?.deviceType,
@@ -42,6 +72,7 @@ const login = catchAsync(async (req: Request, res: Response) => {
       os: req.device?.os,
       timezone: req.device?.timezone,
       isBot: req.device?.isBot,
+      geo: req.device?.geo,
     },
   });
 
@@ -88,6 +119,7 @@ const verifyAccount = catchAsync(async (req: Request, res: Response) => {
       os: req.device?.os,
       timezone: req.device?.timezone,
       isBot: req.device?.isBot,
+      geo: req.device?.geo,
     },
   });
   tokenService.setAuthCookies(res, token);
@@ -101,8 +133,26 @@ const verifyAccount = catchAsync(async (req: Request, res: Response) => {
   );
 });
 
+/**
+ * Refresh and logout skip auth(), so a refresh token taken from the cookie
+ * needs the CSRF check here; one sent in the body cannot be forged
+ * cross-site.
+ */
+const getRefreshToken = (req: Request): string | undefined => {
+  if (req.body.refreshToken) return req.body.refreshToken;
+  const cookieToken = req.cookies?.refreshToken;
+  if (cookieToken && !hasValidCsrfToken(req)) {
+    logger.warn("CSRF token check failed", {
+      method: req.method,
+      path: req.originalUrl,
+    });
+    throw new ApiError(httpStatus.FORBIDDEN, req.str("auth.csrf_invalid"));
+  }
+  return cookieToken;
+};
+
 const logout = catchAsync(async (req: Request, res: Response) => {
-  const refreshToken = req.body.refreshToken || req.cookies?.refreshToken;
+  const refreshToken = getRefreshToken(req);
   const userId = req.user?.id;
 
   if (refreshToken) {
@@ -117,6 +167,7 @@ const logout = catchAsync(async (req: Request, res: Response) => {
 
   res.clearCookie("accessToken");
   res.clearCookie("refreshToken", { path: "/api/v1/auth/refresh-tokens" });
+  res.clearCookie(CSRF_COOKIE);
 
   res.status(httpStatus.OK).json(
     response({
@@ -126,8 +177,19 @@ const logout = catchAsync(async (req: Request, res: Response) => {
   );
 });
 
+const getCsrfToken = catchAsync(async (req: Request, res: Response) => {
+  const csrfToken = tokenService.setCsrfCookie(res);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.csrf_token_issued"),
+      data: { csrfToken },
+    }),
+  );
+});
+
 const refreshTokens = catchAsync(async (req: Request, res: Response) => {
-  const refreshToken = req.body.refreshToken || req.cookies?.refreshToken;
+  const refreshToken = getRefreshToken(req);
   console.log("refreshToken", refreshToken);
   if (!refreshToken) {
     throw new ApiError(httpStatus.BAD_REQUEST, "Refresh token is required");
@@ -178,7 +240,12 @@ const resetPassword = catchAsync(async (req: Request, res: Response) => {
 const changePassword = catchAsync(async (req: Request, res: Response) => {
   const { oldPassword, newPassword } = req.body;
   const user: any = req.user;
-  await authService.changePassword(user?.id, oldPassword, newPassword);
+  await authService.changePassword(
+    user?.id,
+    oldPassword,
+    newPassword,
+    user?.sessionId,
+  );
   res.status(httpStatus.OK).json(
     response({
       status: httpStatus.OK,
@@ -187,13 +254,100 @@ const changePassword = catchAsync(async (req: Request, res: Response) => {
   );
 });
 
+const reauthenticate = catchAsync(async (req: Request, res: Response) => {
+  const { password, code, recoveryCode } = req.body;
+  await authService.reauthenticate(
+    req.user?.id!,
+    req.user?.sessionId,
+    { password, code, recoveryCode },
+    req.device,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.reauthenticated"),
+    }),
+  );
+});
+
+const listSessions = catchAsync(async (req: Request, res: Response) => {
+  const sessions = await tokenService.listOwnSessions(
+    req.user?.id!,
+    req.user?.sessionId,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.sessions_retrieved"),
+      data: sessions,
+    }),
+  );
+});
+
+const revokeSession = catchAsync(async (req: Request, res: Response) => {
+  await tokenService.revokeSession(
+    req.user?.id!,
+    req.params.sessionId as string,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.session_revoked"),
+    }),
+  );
+});
+
+const revokeOtherSessions = catchAsync(async (req: Request, res: Response) => {
+  await tokenService.revokeAllForUser(req.user?.id!, {
+    reason: "Revoked by user from another session",
+    exceptSessionId: req.user?.sessionId,
+  });
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.other_sessions_revoked"),
+    }),
+  );
+});
+
+const renameSession = catchAsync(async (req: Request, res: Response) => {
+  const session = await tokenService.renameSession(
+    req.user?.id!,
+    req.params.sessionId as string,
+    req.body.deviceName,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.session_renamed"),
+      data: session,
+    }),
+  );
+});
+
+const reportSession = catchAsync(async (req: Request, res: Response) => {
+  await loginAlertService.reportSession(req.body.token);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.session_reported"),
+    }),
+  );
+});
+
 const deleteAccount = catchAsync(async (req: Request, res: Response) => {
-  const user: any = req.user;
-  await authService.deleteAccount(user?.id);
+  const deletion = await authService.deleteAccount(req.user?.id!);
+
+  // Every session was revoked, this one included
+  res.clearCookie("accessToken");
+  res.clearCookie("refreshToken", { path: "/api/v1/auth/refresh-tokens" });
+  res.clearCookie(CSRF_COOKIE);
+
   res.status(httpStatus.OK).json(
     response({
       status: httpStatus.OK,
       message: req.str("auth.delete_account_success"),
+      data: deletion,
     }),
   );
 });
@@ -231,8 +385,7 @@ const oauth = catchAsync(async (req: Request, res: Response, next: any) => {
   if (!provider) {
     throw new ApiError(httpStatus.BAD_REQUEST, "Provider is required");
   }
-  // Google requires 'profile' and 'email'. Apple behavior varies but 'email' 'name' is standard.
-  const scope = provider === "google" ? ["profile", "email"] : [];
+  const { scope } = await oauthRegistry.ensureStrategy(provider as string);
   passport.authenticate(provider, { scope, session: false })(req, res, next);
 });
 
@@ -242,6 +395,7 @@ const oauthCallback = catchAsync(
     if (!provider) {
       throw new ApiError(httpStatus.BAD_REQUEST, "Provider is required");
     }
+    await oauthRegistry.ensureStrategy(provider as string);
 
     passport.authenticate(
       provider,
@@ -264,6 +418,15 @@ const oauthCallback = catchAsync(
             userAgent: req.device?.userAgent || req.get("User-Agent"),
             ipAddress: req.device?.ip,
             rememberMe: true,
+            metadata: {
+              fingerprint: req.device?.fingerprint,
+              deviceType: req.device?.deviceType,
+              browser: req.device?.browser,
+              os: req.device?.os,
+              timezone: req.device?.timezone,
+              isBot: req.device?.isBot,
+              geo: req.device?.geo,
+            },
           });
 
           tokenService.setAuthCookies(res, token);
@@ -280,18 +443,9 @@ const oauthCallback = catchAsync(
 );
 
 const loginWithOAuth = catchAsync(async (req: Request, res: Response) => {
-  const { provider, idToken, fcmToken, ...rest } = req.body;
-  let oauthUser;
-
-  if (provider === "google") {
-    oauthUser = await tokenService.verifyGoogleIdToken(idToken);
-  } else if (provider === "apple") {
-    oauthUser = await tokenService.verifyAppleIdToken(idToken);
-  } else {
-    throw new ApiError(httpStatus.BAD_REQUEST, "Invalid provider");
-  }
-
-  const result = await authService.loginWithOAuth(oauthUser);
+  const { provider, idToken, fcmToken } = req.body;
+  const profile = await oauthRegistry.verifyIdToken(provider, idToken);
+  const result = await authService.loginWithOAuth(profile);
 
   const token = await tokenService.generateLoginTokens({
     userId: result.id, // Now accessing result.user.id
@@ -307,6 +461,7 @@ const loginWithOAuth = catchAsync(async (req: Request, res: Response) => {
       os: req.device?.os,
       timezone: req.device?.timezone,
       isBot: req.device?.isBot,
+      geo: req.device?.geo,
     },
   });
 
@@ -335,12 +490,146 @@ const loginWithOAuth = catchAsync(async (req: Request, res: Response) => {
   );
 });
 
+const listOAuthProviders = catchAsync(async (req: Request, res: Response) => {
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.providers_retrieved"),
+      data: oauthRegistry.listProviders(),
+    }),
+  );
+});
+
+const getLinkedProviders = catchAsync(async (req: Request, res: Response) => {
+  const providers = await authService.getLinkedProviders(req.user?.id!);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.providers_retrieved"),
+      data: providers,
+    }),
+  );
+});
+
+const linkProvider = catchAsync(async (req: Request, res: Response) => {
+  const profile = await oauthRegistry.verifyIdToken(
+    req.params.provider as string,
+    req.body.idToken,
+  );
+  const providers = await authService.linkProvider(req.user?.id!, profile);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.provider_linked"),
+      data: providers,
+    }),
+  );
+});
+
+const unlinkProvider = catchAsync(async (req: Request, res: Response) => {
+  const providers = await authService.unlinkProvider(
+    req.user?.id!,
+    req.params.provider as string,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.provider_unlinked"),
+      data: providers,
+    }),
+  );
+});
+
+const requestMagicLink = catchAsync(async (req: Request, res: Response) => {
+  await authService.requestMagicLink(req.body.email, req.device);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.magic_link_sent"),
+    }),
+  );
+});
+
+const consumeMagicLink = catchAsync(async (req: Request, res: Response) => {
+  const { token: magicToken, fcmToken, rememberMe = false } = req.body;
+  const user = await authService.consumeMagicLink(magicToken, req.device);
+
+  // The link replaces the password, not the second factor
+  const trustedDevice = await trustedDeviceService.isTrusted(
+    user.id,
+    trustedDeviceService.getDeviceSecret(req),
+  );
+  if (user.twoFactorEnabled && !trustedDevice) {
+    const mfaToken = await twoFactorService.createChallenge(user.id);
+    return res.status(httpStatus.OK).json(
+      response({
+        status: httpStatus.OK,
+        message: req.str("auth.mfa_required"),
+        type: "mfa_pending",
+        token: { mfa: mfaToken },
+      }),
+    );
+  }
+
+  const token = await tokenService.generateLoginTokens({
+    userId: user.id,
+    deviceId: req.device?.deviceId,
+    deviceName: req.device?.deviceName,
+    userAgent: req.device?.userAgent,
+    ipAddress: req.device?.ip,
+    rememberMe: rememberMe,
+    trustedDevice,
+    metadata: {
+      fingerprint: req.device?.fingerprint,
+      deviceType: req.device?.deviceType,
+      browser: req.device?.browser,
+      os: req.device?.os,
+      timezone: req.device?.timezone,
+      isBot: req.device?.isBot,
+      geo: req.device?.geo,
+    },
+  });
+
+  if (fcmToken) {
+    await userService.updateUser(user.id, { fcmToken }, {});
+  }
+
+  logger.info("User logged in via magic link", {
+    userId: user.id,
+    email: user.email,
+    deviceName: req.device?.deviceName,
+    ip: req.device?.ip,
+  });
+
+  tokenService.setAuthCookies(res, token);
+
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.login_success"),
+      data: user,
+      token,
+    }),
+  );
+});
+
+const unlockAccount = catchAsync(async (req: Request, res: Response) => {
+  await lockoutService.unlockWithToken(req.body.token, req.device);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.account_unlocked"),
+    }),
+  );
+});
+
 export default {
   register,
   login,
   verifyAccount,
   logout,
   refreshTokens,
+  getCsrfToken,
   forgotPassword,
   resetPassword,
   changePassword,
@@ -349,5 +638,18 @@ export default {
   oauth,
   oauthCallback,
   loginWithOAuth,
+  listOAuthProviders,
+  getLinkedProviders,
+  linkProvider,
+  unlinkProvider,
+  listSessions,
+  revokeSession,
+  revokeOtherSessions,
+  renameSession,
+  reportSession,
+  reauthenticate,
   deleteAccount,
+  requestMagicLink,
+  consumeMagicLink,
+  unlockAccount,
 };
@@ -3,6 +3,9 @@ import authController from "./auth.controller";
 import validate from "../../middlewares/validate";
 import authValidation from "./auth.validation";
 import auth from "../../middlewares/auth";
+import requireRecentAuth from "../../middlewares/requireRecentAuth";
+import denyImpersonation from "../../middlewares/denyImpersonation";
+import requireUserSession from "../../middlewares/requireUserSession";
 import userFileUploadMiddleware from "../../middlewares/fileUploader";
 const uploadAll = userFileUploadMiddleware("./public/uploads/all").fields([
   { name: "avatar", maxCount: 1 },
@@ -29,6 +32,7 @@ router.post(
   validate(authValidation.refreshTokens),
   authController.refreshTokens,
 );
+router.get("/csrf-token", authController.getCsrfToken);
 router.post(
   "/forgot-password",
   validate(authValidation.forgotPassword),
@@ -42,6 +46,9 @@ router.post(
 router.post(
   "/change-password",
   auth("common"),
+  denyImpersonation,
+  requireUserSession,
+  requireRecentAuth(),
   validate(authValidation.changePassword),
   authController.changePassword,
 );
@@ -58,6 +65,8 @@ router.post(
   authController.resendOtp,
 );
 
+router.get("/oauth/providers", authController.listOAuthProviders);
+
 router.post(
   "/oauth/:provider",
   validate(authValidation.oauth),
@@ -76,5 +85,99 @@ router.post(
   authController.loginWithOAuth,
 );
 
-router.delete("/delete-me", auth("common"), authController.deleteAccount);
+router.get("/providers", auth("common"), authController.getLinkedProviders);
+
+router
+  .route("/providers/:provider")
+  .post(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    requireRecentAuth(),
+    validate(authValidation.linkProvider),
+    authController.linkProvider,
+  )
+  .delete(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    requireRecentAuth(),
+    validate(authValidation.unlinkProvider),
+    authController.unlinkProvider,
+  );
+
+router.post(
+  "/magic-link/request",
+  validate(authValidation.requestMagicLink),
+  authController.requestMagicLink,
+);
+
+router.post(
+  "/magic-link/consume",
+  validate(authValidation.consumeMagicLink),
+  authController.consumeMagicLink,
+);
+
+router.post(
+  "/unlock-account",
+  validate(authValidation.unlockAccount),
+  authController.unlockAccount,
+);
+
+router
+  .route("/sessions")
+  .get(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    authController.listSessions,
+  )
+  .delete(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    requireRecentAuth(),
+    authController.revokeOtherSessions,
+  );
+
+// "This wasn't me" link from the new login alert email
+router.post(
+  "/sessions/report",
+  validate(authValidation.reportSession),
+  authController.reportSession,
+);
+
+router
+  .route("/sessions/:sessionId")
+  .patch(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    requireRecentAuth(),
+    validate(authValidation.renameSession),
+    authController.renameSession,
+  )
+  .delete(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    requireRecentAuth(),
+    validate(authValidation.revokeSession),
+    authController.revokeSession,
+  );
+
+router.post(
+  "/reauthenticate",
+  auth("common"),
+  denyImpersonation,
+  validate(authValidation.reauthenticate),
+  authController.reauthenticate,
+);
+
+router.delete(
+  "/delete-me",
+  auth("common"),
+  requireRecentAuth(),
+  authController.deleteAccount,
+);
 export default router;
@@ -1,14 +1,30 @@
 import emailHelper from "../../configs/email";
 import ApiError from "../../utils/ApiError";
-import { randomOtp } from "../../utils/otp";
 import http from "http-status";
 import logger from "../../utils/logger";
 import prisma from "../../configs/prisma";
-import bcrypt from "bcrypt";
 import userService from "../user/user.service";
 import userSelect from "../user/user.select";
 import { IUser } from "../user/user.interface";
 import httpStatus from "http-status";
+import crypto from "crypto";
+import jwt from "../../utils/jwt";
+import env from "../../configs/variables";
+import { strToDate } from "../../utils/date";
+import { OtpPurpose, tokenType } from "../../../generated/prisma/enums";
+import otpService from "../otp/otp.service";
+import tokenService from "../token/token.service";
+import lockoutService from "../lockout/lockout.service";
+import passwordService from "../password/password.service";
+import trustedDeviceService from "../trustedDevice/trustedDevice.service";
+import twoFactorService from "../twoFactor/twoFactor.service";
+import invitationService from "../invitation/invitation.service";
+import accountDeletionService from "../accountDeletion/accountDeletion.service";
+import roleService from "../role/role.service";
+import { defaultRole } from "../../configs/roles";
+import passwordHasher from "../../utils/passwordHasher";
+import { DeviceInfo } from "../../types/express";
+import { OAuthProfile } from "../oauth/oauth.interface";
 
 const createUser = async (userData: any) => {
   return await prisma.user.create({
@@ -16,46 +32,44 @@ const createUser = async (userData: any) => {
   });
 };
 
-const restoreUser = async (userId: string, userData: any) => {
-  return await prisma.user.update({
-    where: { id: userId },
-    data: userData,
-  });
-};
-
-const register = async (userData: IUser) => {
-  const otp = randomOtp();
-  const oneTimeCode = otp;
-  const oneTimeCodeExpires = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes from now
+const register = async (
+  userData: Omit<IUser, "role"> & { invitationToken?: string },
+) => {
+  const { email, password, invitationToken, ...rest } = userData;
 
-  const { email, password, role, ...rest } = userData;
+  // In invite-only mode an invitation for this address is mandatory;
+  // otherwise one may still be used to join with the role it grants
+  if (env.invitation.inviteOnly && !invitationToken) {
+    throw new ApiError(http.FORBIDDEN, "Registration requires an invitation");
+  }
+  const invitation = invitationToken
+    ? await invitationService.getUsableInvitation(invitationToken, email)
+    : null;
+  const role = invitation?.role ?? defaultRole;
+  await roleService.assertRoleExists(role);
+
+  await passwordService.assertPasswordPolicy(password!, {
+    email,
+    firstName: rest.firstName,
+    lastName: rest.lastName,
+  });
 
-  const hashedPassword = await bcrypt.hash(password!, 8);
+  const hashedPassword = await passwordHasher.hash(password!);
 
+  // Deleted accounts keep their address until they are purged
   const emailTaken = await userService.getUserByEmail(email);
-  if (emailTaken && !emailTaken.isDeleted) {
+  if (emailTaken) {
     throw new ApiError(http.BAD_REQUEST, "Email already taken");
-  } else if (emailTaken && emailTaken.isDeleted) {
-    await restoreUser(emailTaken.id, {
-      email,
-      password: hashedPassword,
-      isDeleted: false,
-      isEmailVerified: false,
-      oneTimeCode,
-      oneTimeCodeExpires,
-      role,
-      ...rest,
-    });
-  } else {
-    await createUser({
-      email,
-      password: hashedPassword,
-      oneTimeCode,
-      oneTimeCodeExpires,
-      role,
-      ...rest,
-    });
   }
+  const data = { email, password: hashedPassword, ...rest, role };
+  const user = invitation
+    ? await invitationService.redeemInvitation(invitation.id, (tx) =>
+        tx.user.create({ data }),
+      )
+    : await createUser(data);
+
+  await passwordService.recordPasswordHistory(user.id, hashedPassword);
+  const otp = await otpService.issue(user.id, OtpPurpose.email_verification);
 
   setImmediate(() => {
     emailHelper
@@ -67,44 +81,54 @@ const register = async (userData: IUser) => {
 
 const verifyAccount = async (email: string, code: string) => {
   const user = await prisma.user.findFirst({
-    where: { email, oneTimeCode: code },
+    where: { email, isDeleted: false },
   });
   if (!user) {
     throw new ApiError(http.FORBIDDEN, "Invalid code or email");
   }
-  if (user.isEmailVerified && !user.isResetPassword) {
+  if (user.isEmailVerified) {
     throw new ApiError(http.BAD_REQUEST, "Email is already verified");
   }
-  if (user.oneTimeCodeExpires && user.oneTimeCodeExpires < new Date()) {
-    await prisma.user.update({
-      where: { email },
-      data: { oneTimeCode: null, oneTimeCodeExpires: null },
-    });
-    throw new ApiError(http.FORBIDDEN, "OTP has expired");
-  }
+  await otpService.verify(user.id, OtpPurpose.email_verification, code);
   const updatedUser = await prisma.user.update({
     where: { id: user.id },
-    data: {
-      isEmailVerified: true,
-      oneTimeCode: null,
-      oneTimeCodeExpires: null,
-    },
+    data: { isEmailVerified: true },
     select: userSelect.getUserSelect,
   });
   return updatedUser;
 };
 
-const login = async (email: string, password: string) => {
+const login = async (email: string, password: string, device?: DeviceInfo) => {
+  await lockoutService.assertCanAttempt(email, device);
+
   const user = await prisma.user.findFirst({
     where: { email, isDeleted: false },
   });
   if (!user) {
+    await lockoutService.recordFailure(email, device);
     throw new ApiError(http.UNAUTHORIZED, "Incorrect email or password");
   }
-  const isPasswordMatch = await bcrypt.compare(password, user.password || "");
+  const isPasswordMatch = await passwordHasher.verify(password, user.password);
   if (!isPasswordMatch) {
+    await lockoutService.recordFailure(email, device, user);
     throw new ApiError(http.UNAUTHORIZED, "Incorrect email or password");
   }
+  // With a second factor the failure counter is only cleared once that
+  // passes too, or guessing codes would never lock the account
+  if (!user.twoFactorEnabled) {
+    await lockoutService.recordSuccess(email);
+  }
+
+  // The plain password is only available here, so upgrade outdated hashes now
+  if (passwordHasher.needsRehash(user.password)) {
+    const upgradedHash = await passwordHasher.hash(password);
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { password: upgradedHash },
+    });
+    logger.info("Password hash upgraded on login", { userId: user.id });
+  }
+
   const filteredUser = await prisma.user.findFirst({
     where: { id: user.id },
     select: userSelect.getUserSelect,
@@ -119,17 +143,10 @@ const forgotPassword = async (email: string) => {
   if (!user) {
     throw new ApiError(http.NOT_FOUND, "User not found");
   }
-  const otp = randomOtp();
-  const updatedUser = await prisma.user.update({
-    where: { id: user.id },
-    data: {
-      oneTimeCode: otp,
-      oneTimeCodeExpires: new Date(Date.now() + 10 * 60 * 1000), // 10 minutes from now
-      isResetPassword: true,
-    },
-  });
+  await otpService.assertCanResend(user.id, OtpPurpose.password_reset);
+  const otp = await otpService.issue(user.id, OtpPurpose.password_reset);
   await emailHelper.sendResetPasswordEmail(user.email, otp);
-  return updatedUser;
+  return user;
 };
 
 const resetPassword = async (
@@ -143,26 +160,28 @@ const resetPassword = async (
   if (!user) {
     throw new ApiError(http.UNAUTHORIZED, "User not found");
   }
-  if (user.oneTimeCode !== otp) {
-    throw new ApiError(http.FORBIDDEN, "Invalid OTP code");
-  }
-  if (user.oneTimeCodeExpires && user.oneTimeCodeExpires < new Date()) {
-    throw new ApiError(http.FORBIDDEN, "OTP has expired");
-  }
-  const isSamePassword = await bcrypt.compare(newPassword, user.password || "");
+  await otpService.verify(user.id, OtpPurpose.password_reset, otp);
+  const isSamePassword = await passwordHasher.verify(
+    newPassword,
+    user.password,
+  );
   if (isSamePassword) {
     throw new ApiError(http.BAD_REQUEST, "New password cannot be same");
   }
-  const hashedPassword = await bcrypt.hash(newPassword, 8);
+  await passwordService.assertPasswordPolicy(newPassword, {
+    userId: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+  });
+  const hashedPassword = await passwordHasher.hash(newPassword);
   const updatedUser = await prisma.user.update({
     where: { id: user.id },
-    data: {
-      password: hashedPassword,
-      isResetPassword: false,
-      oneTimeCode: null,
-      oneTimeCodeExpires: null,
-    },
+    data: { password: hashedPassword },
   });
+  await passwordService.recordPasswordHistory(user.id, hashedPassword);
+  await tokenService.bumpTokenVersion(user.id, "Password reset");
+  await trustedDeviceService.revokeAllForUser(user.id, "Password reset");
   return updatedUser;
 };
 
@@ -170,6 +189,7 @@ const changePassword = async (
   userId: any,
   oldPassword: string,
   newPassword: string,
+  sessionId?: string,
 ) => {
   const user = await prisma.user.findFirst({
     where: { id: userId, isDeleted: false },
@@ -185,60 +205,101 @@ const changePassword = async (
     );
   }
 
-  const isSamePassword = await bcrypt.compare(newPassword, user.password || "");
-  if (isSamePassword) {
-    throw new ApiError(http.BAD_REQUEST, "New password cannot be same");
+  const isOldPasswordMatch = await passwordHasher.verify(
+    oldPassword,
+    user.password,
+  );
+  if (!isOldPasswordMatch) {
+    throw new ApiError(http.UNAUTHORIZED, "Incorrect old password");
   }
 
-  const newHashedPassword = await bcrypt.hash(newPassword, 8);
+  await passwordService.assertPasswordPolicy(newPassword, {
+    userId: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+  });
+
+  const newHashedPassword = await passwordHasher.hash(newPassword);
 
   const updatedUser = await prisma.user.update({
     where: { id: userId },
     data: { password: newHashedPassword },
   });
+  await passwordService.recordPasswordHistory(user.id, newHashedPassword);
+  // Sign out every other session; the one changing the password stays
+  await tokenService.revokeAllForUser(user.id, {
+    reason: "Password changed",
+    exceptSessionId: sessionId,
+  });
+  await trustedDeviceService.revokeAllForUser(user.id, "Password changed");
   return updatedUser;
 };
 
-const deleteAccount = async (userId: any) => {
+/**
+ * Confirm the password or a second factor again and stamp the session,
+ * which satisfies `requireRecentAuth` for a while
+ */
+const reauthenticate = async (
+  userId: string,
+  sessionId: string | undefined,
+  factor: { password?: string; code?: string; recoveryCode?: string },
+  device?: DeviceInfo,
+) => {
+  if (!sessionId) {
+    throw new ApiError(
+      http.BAD_REQUEST,
+      "This session cannot be re-authenticated, please sign in again",
+    );
+  }
   const user = await prisma.user.findFirst({
     where: { id: userId, isDeleted: false },
   });
   if (!user) {
     throw new ApiError(http.UNAUTHORIZED, "User not found");
   }
-  // TODO: Add Token model to Prisma schema if needed
-  const token = await prisma.token.findFirst({
-    where: { userId },
-  });
-  if (!token) {
-    throw new ApiError(http.UNAUTHORIZED, "User not found");
+
+  // Same brute-force protection as the login form, for either factor
+  await lockoutService.assertCanAttempt(user.email, device);
+  if (factor.password) {
+    const isPasswordMatch = await passwordHasher.verify(
+      factor.password,
+      user.password,
+    );
+    if (!isPasswordMatch) {
+      await lockoutService.recordFailure(user.email, device, user);
+      throw new ApiError(http.UNAUTHORIZED, "Incorrect password");
+    }
+  } else {
+    try {
+      await twoFactorService.verifyForUser(user.id, factor);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === http.FORBIDDEN) {
+        await lockoutService.recordFailure(user.email, device, user);
+      }
+      throw error;
+    }
   }
-  await prisma.token.delete({
-    where: { id: token.id },
-  });
-  const updatedUser = await prisma.user.update({
-    where: { id: userId },
-    data: { isDeleted: true },
+  await lockoutService.recordSuccess(user.email);
+
+  await tokenService.markSessionAuthenticated(sessionId);
+  logger.info("Session re-authenticated", {
+    userId,
+    sessionId,
+    method: factor.password ? "password" : "two_factor",
   });
-  return updatedUser;
+  return true;
+};
+
+const deleteAccount = async (userId: string) => {
+  return await accountDeletionService.scheduleDeletion(userId);
 };
 
 const reqVerifyAccount = async (user: any) => {
-  if (user.isEmailVerified && !user.isResetPassword) {
+  if (user.isEmailVerified) {
     throw new ApiError(http.BAD_REQUEST, "Email is already verified");
   }
 
-  if (user.oneTimeCodeExpires) {
-    const resendAllowedAt =
-      new Date(user.oneTimeCodeExpires).getTime() - 7 * 60 * 1000;
-    if (Date.now() < resendAllowedAt) {
-      throw new ApiError(
-        http.TOO_MANY_REQUESTS,
-        "Please wait before requesting a new verification code",
-      );
-    }
-  }
-
   const userDoc = await prisma.user.findUnique({
     where: { id: user.id },
   });
@@ -246,22 +307,16 @@ const reqVerifyAccount = async (user: any) => {
     throw new ApiError(http.NOT_FOUND, "User not found");
   }
 
-  const otp = randomOtp();
-  const updatedUser = await prisma.user.update({
-    where: { id: user.id },
-    data: {
-      oneTimeCode: otp,
-      oneTimeCodeExpires: new Date(Date.now() + 10 * 60 * 1000), // 10 minutes
-    },
-  });
+  await otpService.assertCanResend(userDoc.id, OtpPurpose.email_verification);
+  const otp = await otpService.issue(userDoc.id, OtpPurpose.email_verification);
 
   setImmediate(() => {
     emailHelper
-      .sendRegistrationEmail(updatedUser.email, otp)
+      .sendRegistrationEmail(userDoc.email, otp)
       .catch((err) => logger.error(err));
   });
 
-  return updatedUser;
+  return userDoc;
 };
 
 const resendOtp = async (email: string) => {
@@ -272,94 +327,320 @@ const resendOtp = async (email: string) => {
     throw new ApiError(http.NOT_FOUND, "Invalid Request!");
   }
 
-  if (!user.oneTimeCode && !user.oneTimeCodeExpires) {
+  // Resend for whichever of these flows has a pending code. Email change
+  // codes must only ever go to the new address, so they are never resent
+  // here to the current one.
+  const activeCode = await otpService.getActiveCode(user.id, [
+    OtpPurpose.email_verification,
+    OtpPurpose.password_reset,
+  ]);
+  if (!activeCode) {
     throw new ApiError(http.BAD_REQUEST, "Bad Request!");
   }
 
-  if (user.oneTimeCodeExpires) {
-    const resendAllowedAt =
-      new Date(user.oneTimeCodeExpires).getTime() - 7 * 60 * 1000;
-    if (Date.now() < resendAllowedAt) {
+  await otpService.assertCanResend(user.id, activeCode.purpose);
+  const otp = await otpService.issue(user.id, activeCode.purpose);
+  if (activeCode.purpose === OtpPurpose.password_reset) {
+    await emailHelper.sendResetPasswordEmail(user.email, otp);
+  } else {
+    await emailHelper.sendRegistrationEmail(user.email, otp);
+  }
+};
+
+const DEFAULT_AVATAR = "/uploads/users/user.png";
+
+/**
+ * Resolve the user for an external identity: by provider subject first,
+ * then by linking a verified email, otherwise by creating a new account
+ */
+const loginWithOAuth = async (profile: OAuthProfile) => {
+  const { provider, subject, email, emailVerified } = profile;
+
+  const identity = await prisma.authIdentity.findUnique({
+    where: { provider_subject: { provider, subject } },
+    include: { user: true },
+  });
+  if (identity) {
+    await prisma.authIdentity.update({
+      where: { id: identity.id },
+      data: { lastUsedAt: new Date() },
+    });
+    return identity.user;
+  }
+
+  if (!email) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Email required for first login",
+    );
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing) {
+    // An unverified address must not take over someone else's account
+    if (!emailVerified) {
       throw new ApiError(
-        http.TOO_MANY_REQUESTS,
-        "Please wait before requesting a new verification code",
+        httpStatus.CONFLICT,
+        "An account with this email already exists. Sign in and link this provider instead",
       );
     }
+    await createIdentity(existing.id, profile);
+    return await prisma.user.update({
+      where: { id: existing.id },
+      data: {
+        isEmailVerified: true,
+        ...(profile.avatar &&
+          (!existing.avatar || existing.avatar === DEFAULT_AVATAR) && {
+            avatar: profile.avatar,
+          }),
+      },
+    });
   }
 
-  const otp = randomOtp();
-  await prisma.user.update({
-    where: { id: user.id },
+  return await prisma.user.create({
     data: {
-      oneTimeCode: otp,
-      oneTimeCodeExpires: new Date(Date.now() + 10 * 60 * 1000), // 10 minutes
+      email,
+      firstName: profile.firstName,
+      lastName: profile.lastName,
+      avatar: profile.avatar || DEFAULT_AVATAR,
+      isEmailVerified: emailVerified,
+      identities: {
+        create: { provider, subject, email, lastUsedAt: new Date() },
+      },
     },
   });
-  if (user.isResetPassword) {
-    await emailHelper.sendResetPasswordEmail(user.email, otp);
-  } else {
-    await emailHelper.sendRegistrationEmail(user.email, otp);
+};
+
+const createIdentity = async (userId: string, profile: OAuthProfile) => {
+  const linked = await prisma.authIdentity.findUnique({
+    where: { userId_provider: { userId, provider: profile.provider } },
+  });
+  if (linked) {
+    throw new ApiError(
+      http.CONFLICT,
+      "Another account from this provider is already linked",
+    );
   }
+  return await prisma.authIdentity.create({
+    data: {
+      userId,
+      provider: profile.provider,
+      subject: profile.subject,
+      email: profile.email,
+      lastUsedAt: new Date(),
+    },
+  });
 };
 
-const loginWithOAuth = async (oauthUser: {
-  provider: "google" | "apple";
-  providerId: string;
-  email?: string;
-  firstName?: string;
-  lastName?: string;
-  avatar?: string;
-}) => {
-  const { provider, providerId, email, firstName, lastName, avatar } =
-    oauthUser;
-
-  const providerField = provider === "google" ? "googleId" : "appleId";
-
-  // 1️⃣ Find by provider ID (MOST trusted)
-  let user = await prisma.user.findUnique({
-    where:
-      provider === "google"
-        ? { googleId: providerId }
-        : { appleId: providerId },
-  });
-
-  // 2️⃣ Link by verified email
-  if (!user && email) {
-    user = await prisma.user.findUnique({ where: { email } });
-
-    if (user) {
-      user = await prisma.user.update({
-        where: { id: user.id },
-        data: {
-          [providerField]: providerId,
-          isEmailVerified: true,
+const getLinkedProviders = async (userId: string) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isDeleted: false },
+    select: {
+      password: true,
+      identities: {
+        select: {
+          provider: true,
+          email: true,
+          createdAt: true,
+          lastUsedAt: true,
         },
-      });
-    }
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+  if (!user) {
+    throw new ApiError(http.NOT_FOUND, "User not found");
   }
+  return {
+    hasPassword: !!user.password,
+    providers: user.identities,
+  };
+};
 
-  // 3️⃣ Create new user
+const linkProvider = async (userId: string, profile: OAuthProfile) => {
+  const owner = await prisma.authIdentity.findUnique({
+    where: {
+      provider_subject: {
+        provider: profile.provider,
+        subject: profile.subject,
+      },
+    },
+  });
+  if (owner && owner.userId !== userId) {
+    throw new ApiError(
+      http.CONFLICT,
+      "This account is already linked to another user",
+    );
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isDeleted: false },
+  });
   if (!user) {
-    if (!email) {
-      throw new ApiError(
-        httpStatus.BAD_REQUEST,
-        "Email required for first login",
-      );
-    }
+    throw new ApiError(http.NOT_FOUND, "User not found");
+  }
 
-    user = await prisma.user.create({
-      data: {
-        email,
-        firstName,
-        lastName,
-        avatar,
-        [providerField]: providerId,
-        isEmailVerified: true,
-      },
+  if (!owner) {
+    await createIdentity(userId, profile);
+    logger.info("Social provider linked", {
+      userId,
+      provider: profile.provider,
     });
   }
+  return await getLinkedProviders(userId);
+};
 
-  return user;
+/**
+ * Refuse to remove the last way the user can sign in
+ * (password, another provider or a passkey)
+ */
+const unlinkProvider = async (userId: string, provider: string) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isDeleted: false },
+    include: {
+      identities: true,
+      _count: { select: { passkeys: true } },
+    },
+  });
+  if (!user) {
+    throw new ApiError(http.NOT_FOUND, "User not found");
+  }
+  const identity = user.identities.find((item) => item.provider === provider);
+  if (!identity) {
+    throw new ApiError(http.NOT_FOUND, "Provider is not linked");
+  }
+
+  const hasOtherLogin =
+    !!user.password || user.identities.length > 1 || user._count.passkeys > 0;
+  if (!hasOtherLogin) {
+    throw new ApiError(
+      http.BAD_REQUEST,
+      "Set a password or add another sign-in method before unlinking",
+    );
+  }
+
+  await prisma.authIdentity.delete({ where: { id: identity.id } });
+  logger.info("Social provider unlinked", { userId, provider });
+  return await getLinkedProviders(userId);
+};
+
+const hashMagicLinkId = (jti: string) => {
+  return crypto.createHash("sha256").update(jti).digest("hex");
+};
+
+const requestMagicLink = async (email: string, device?: DeviceInfo) => {
+  const user = await prisma.user.findFirst({
+    where: { email, isDeleted: false },
+  });
+  // Respond the same way for unknown emails to avoid account enumeration
+  if (!user || user.isRestricted) {
+    logger.warn("Magic link requested for unavailable account", { email });
+    return true;
+  }
+
+  // Only the most recent link stays valid
+  await prisma.token.updateMany({
+    where: { userId: user.id, type: tokenType.magic_link, isRevoked: false },
+    data: {
+      isRevoked: true,
+      revokedAt: new Date(),
+      revokedReason: "Superseded by a new magic link",
+    },
+  });
+
+  const jti = crypto.randomBytes(32).toString("hex");
+  const signedToken = await jwt.generateToken(
+    { sub: user.id, type: tokenType.magic_link, jti },
+    env.jwt.expiryMagicLinkToken,
+  );
+  const expiresAt = strToDate(env.jwt.expiryMagicLinkToken);
+
+  await prisma.token.create({
+    data: {
+      userId: user.id,
+      token: hashMagicLinkId(jti),
+      type: tokenType.magic_link,
+      expiresAt,
+      deviceId: device?.deviceId,
+      deviceName: device?.deviceName,
+      userAgent: device?.userAgent,
+      ipAddress: device?.ip,
+      metadata: { fingerprint: device?.fingerprint },
+    },
+  });
+
+  const link = `${env.FRONTEND_URL}/magic-link?token=${encodeURIComponent(signedToken)}`;
+  const expiresInMinutes = Math.round(
+    (expiresAt.getTime() - Date.now()) / 60000,
+  );
+
+  setImmediate(() => {
+    emailHelper
+      .sendMagicLinkEmail(user.email, link, expiresInMinutes)
+      .catch((err) => logger.error("Error sending magic link email: " + err));
+  });
+  return true;
+};
+
+const consumeMagicLink = async (token: string, device?: DeviceInfo) => {
+  const payload = await jwt.verifyToken(token);
+  if (payload.type !== tokenType.magic_link || !payload.jti) {
+    throw new ApiError(http.FORBIDDEN, "Invalid magic link");
+  }
+
+  const tokenDoc = await prisma.token.findFirst({
+    where: { token: hashMagicLinkId(payload.jti), type: tokenType.magic_link },
+  });
+  if (!tokenDoc || tokenDoc.userId !== payload.sub) {
+    throw new ApiError(http.FORBIDDEN, "Invalid magic link");
+  }
+  if (tokenDoc.isRevoked) {
+    throw new ApiError(http.FORBIDDEN, "Magic link has already been used");
+  }
+  if (tokenDoc.expiresAt < new Date()) {
+    throw new ApiError(http.FORBIDDEN, "Magic link has expired");
+  }
+
+  const metadata = (tokenDoc.metadata || {}) as { fingerprint?: string };
+  if (metadata.fingerprint && metadata.fingerprint !== device?.fingerprint) {
+    logger.warn("Magic link opened from a different device", {
+      userId: tokenDoc.userId,
+      ip: device?.ip,
+    });
+    throw new ApiError(
+      http.FORBIDDEN,
+      "Magic link must be opened on the device that requested it",
+    );
+  }
+
+  // Conditional update so two concurrent requests cannot both consume it
+  const consumed = await prisma.token.updateMany({
+    where: { id: tokenDoc.id, isRevoked: false },
+    data: {
+      isRevoked: true,
+      revokedAt: new Date(),
+      revokedReason: "Magic link used",
+      lastUsedAt: new Date(),
+      useCount: { increment: 1 },
+    },
+  });
+  if (consumed.count === 0) {
+    throw new ApiError(http.FORBIDDEN, "Magic link has already been used");
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { id: tokenDoc.userId, isDeleted: false },
+  });
+  if (!user) {
+    throw new ApiError(http.UNAUTHORIZED, "User not found");
+  }
+
+  // Opening the link proves ownership of the email address
+  return await prisma.user.update({
+    where: { id: user.id },
+    data: { isEmailVerified: true },
+    select: userSelect.getUserSelect,
+  });
 };
 
 export default {
@@ -369,8 +650,14 @@ export default {
   forgotPassword,
   resetPassword,
   changePassword,
+  reauthenticate,
   deleteAccount,
   resendOtp,
   reqVerifyAccount,
   loginWithOAuth,
+  getLinkedProviders,
+  linkProvider,
+  unlinkProvider,
+  requestMagicLink,
+  consumeMagicLink,
 };
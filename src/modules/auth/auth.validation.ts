@@ -1,17 +1,14 @@
 import { z } from "zod";
-import { roles } from "../../configs/roles";
-import validator from "../../utils/validation";
 
 const register = {
   body: z.object({
     firstName: z.string().min(3).max(30),
     lastName: z.string().min(3).max(30),
     email: z.string().email(),
-    password: z.string().refine(validator.password, {
-      message:
-        "password must be at least 8 characters and contain at least 1 letter and 1 number",
-    }),
-    role: z.enum(roles as [string, ...string[]]),
+    // Full password policy is enforced by passwordService
+    password: z.string().min(1).max(128),
+    // Required when INVITE_ONLY_REGISTRATION is on
+    invitationToken: z.string().min(1).optional(),
   }),
 };
 
@@ -52,20 +49,38 @@ const resetPassword = {
   body: z.object({
     email: z.string().email(),
     otp: z.string(),
-    password: z.string().refine(validator.password, {
-      message:
-        "password must be at least 8 characters and contain at least 1 letter and 1 number",
-    }),
+    password: z.string().min(1).max(128),
   }),
 };
 
 const changePassword = {
   body: z.object({
     oldPassword: z.string(),
-    newPassword: z.string().min(6).max(100),
+    newPassword: z.string().min(1).max(128),
   }),
 };
 
+const reauthenticate = {
+  body: z
+    .object({
+      password: z.string().min(1).max(128).optional(),
+      code: z
+        .string()
+        .regex(/^\d{6}$/, "code must be 6 digits")
+        .optional(),
+      recoveryCode: z.string().optional(),
+    })
+    .refine(
+      (data) =>
+        [data.password, data.code, data.recoveryCode].filter(Boolean).length ===
+        1,
+      {
+        message: "Provide exactly one of password, code or recoveryCode",
+        path: ["password"],
+      },
+    ),
+};
+
 const resendOtp = {
   body: z.object({
     email: z.string().email(),
@@ -86,9 +101,66 @@ const oauthCallback = {
 
 const loginWithOAuth = {
   body: z.object({
-    provider: z.enum(["google", "apple"]),
-    oauthId: z.string(),
+    provider: z.string(),
+    idToken: z.string(),
+    fcmToken: z.string().optional(),
+  }),
+};
+
+const linkProvider = {
+  params: z.object({
+    provider: z.string(),
+  }),
+  body: z.object({
+    idToken: z.string(),
+  }),
+};
+
+const unlinkProvider = {
+  params: z.object({
+    provider: z.string(),
+  }),
+};
+
+// Sessions are identified by their refresh token family
+const sessionParams = z.object({
+  sessionId: z.string().regex(/^[0-9a-f]{32}$/, "Invalid session id"),
+});
+
+const revokeSession = {
+  params: sessionParams,
+};
+
+const renameSession = {
+  params: sessionParams,
+  body: z.object({
+    deviceName: z.string().trim().min(1).max(100),
+  }),
+};
+
+const reportSession = {
+  body: z.object({
+    token: z.string(),
+  }),
+};
+
+const requestMagicLink = {
+  body: z.object({
+    email: z.string().email(),
+  }),
+};
+
+const consumeMagicLink = {
+  body: z.object({
+    token: z.string(),
     fcmToken: z.string().optional(),
+    rememberMe: z.boolean().optional(),
+  }),
+};
+
+const unlockAccount = {
+  body: z.object({
+    token: z.string(),
   }),
 };
 
@@ -101,8 +173,17 @@ export default {
   forgotPassword,
   resetPassword,
   changePassword,
+  reauthenticate,
   resendOtp,
   oauth,
   oauthCallback,
   loginWithOAuth,
+  linkProvider,
+  unlinkProvider,
+  revokeSession,
+  renameSession,
+  reportSession,
+  requestMagicLink,
+  consumeMagicLink,
+  unlockAccount,
 };
@@ -0,0 +1,59 @@
+import catchAsync from "../../utils/catchAsync";
+import type { Request, Response } from "express";
+import httpStatus from "http-status";
+import response from "../../utils/response";
+import dataExportService from "./dataExport.service";
+
+const requestOwnExport = catchAsync(async (req: Request, res: Response) => {
+  const dataExport = await dataExportService.requestExport(
+    req.user?.id!,
+    req.user?.id!,
+  );
+  res.status(httpStatus.ACCEPTED).json(
+    response({
+      status: httpStatus.ACCEPTED,
+      message: req.str("user.data_export_requested"),
+      data: dataExport,
+    }),
+  );
+});
+
+const listOwnExports = catchAsync(async (req: Request, res: Response) => {
+  const exports = await dataExportService.listExports(req.user?.id!);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.data_exports_retrieved"),
+      data: exports,
+    }),
+  );
+});
+
+const requestUserExport = catchAsync(async (req: Request, res: Response) => {
+  const dataExport = await dataExportService.requestExport(
+    req.params.userId as string,
+    req.user?.id!,
+  );
+  res.status(httpStatus.ACCEPTED).json(
+    response({
+      status: httpStatus.ACCEPTED,
+      message: req.str("user.data_export_requested"),
+      data: dataExport,
+    }),
+  );
+});
+
+const downloadExport = catchAsync(async (req: Request, res: Response) => {
+  const { filePath, fileName } = await dataExportService.getDownload(
+    req.query.token as string,
+  );
+  res.set("Cache-Control", "no-store");
+  res.download(filePath, fileName);
+});
+
+export default {
+  requestOwnExport,
+  listOwnExports,
+  requestUserExport,
+  downloadExport,
+};
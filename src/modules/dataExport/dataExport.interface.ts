@@ -0,0 +1,15 @@
+export interface DataExportFile {
+  path: string;
+  description: string;
+  // Number of records in a JSON file
+  records?: number;
+}
+
+export interface DataExportManifest {
+  format: "user-data-export";
+  version: number;
+  exportId: string;
+  userId: string;
+  generatedAt: string;
+  files: DataExportFile[];
+}
@@ -0,0 +1,332 @@
+import crypto from "crypto";
+import nodeFs from "fs";
+import path from "path";
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import emailHelper from "../../configs/email";
+import ApiError from "../../utils/ApiError";
+import fs from "../../utils/fs";
+import logger from "../../utils/logger";
+import { createZip, ZipEntry } from "../../utils/zip";
+import { DataExportStatus, tokenType } from "../../../generated/prisma/enums";
+import userSelect from "../user/user.select";
+import { DataExportFile, DataExportManifest } from "./dataExport.interface";
+
+// Bump when the layout of the archive changes
+const EXPORT_FORMAT_VERSION = 1;
+
+const hashDownloadToken = (token: string) => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+const exportSelect = {
+  id: true,
+  userId: true,
+  requestedById: true,
+  status: true,
+  error: true,
+  createdAt: true,
+  completedAt: true,
+  expiresAt: true,
+};
+
+const removeArchive = (filePath?: string | null) => {
+  if (!filePath) return;
+  try {
+    nodeFs.unlinkSync(filePath);
+  } catch (err: any) {
+    if (err.code !== "ENOENT") {
+      logger.error("Failed to delete data export", {
+        filePath,
+        error: err.message,
+      });
+    }
+  }
+};
+
+/**
+ * Everything we hold about the user, as archive entries plus their
+ * manifest descriptions
+ */
+const collectUserData = async (userId: string) => {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      ...userSelect.getUserSelect,
+      twoFactorEnabledAt: true,
+      deletionRequestedAt: true,
+      deletionScheduledFor: true,
+    },
+  });
+  const sessions = await prisma.token.findMany({
+    where: { userId, type: tokenType.refresh },
+    select: {
+      tokenFamily: true,
+      deviceId: true,
+      deviceName: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+      isRevoked: true,
+      revokedAt: true,
+      revokedReason: true,
+      metadata: true,
+    },
+    orderBy: { createdAt: "desc" },
+  });
+  const transactions = await prisma.transaction.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+  const oauthConsents = await prisma.oAuthConsent.findMany({
+    where: { userId },
+    select: {
+      clientId: true,
+      client: { select: { name: true } },
+      scopes: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+  const trustedDevices = await prisma.trustedDevice.findMany({
+    where: { userId },
+    select: {
+      deviceName: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+      revokedAt: true,
+    },
+  });
+
+  const entries: ZipEntry[] = [];
+  const files: DataExportFile[] = [];
+  const addJson = (
+    filePath: string,
+    description: string,
+    data: unknown,
+    records?: number,
+  ) => {
+    entries.push({ name: filePath, data: JSON.stringify(data, null, 2) });
+    files.push({ path: filePath, description, records });
+  };
+
+  addJson("profile.json", "Account profile", user, 1);
+  addJson("sessions.json", "Sign-ins and sessions", sessions, sessions.length);
+  addJson(
+    "transactions.json",
+    "Payments and other transactions",
+    transactions,
+    transactions.length,
+  );
+  addJson(
+    "consents.json",
+    "Apps you granted access and devices you trusted",
+    { oauthConsents, trustedDevices },
+    oauthConsents.length + trustedDevices.length,
+  );
+
+  // Only files the user uploaded; the default avatar is shared
+  if (user.avatar?.startsWith(env.BACKEND_URL + "/public")) {
+    const avatarPath = fs.localPathFromUrl(user.avatar);
+    if (nodeFs.existsSync(avatarPath)) {
+      const name = `files/avatar${path.extname(avatarPath)}`;
+      entries.push({ name, data: nodeFs.readFileSync(avatarPath) });
+      files.push({ path: name, description: "Profile picture" });
+    }
+  }
+
+  return { entries, files };
+};
+
+const buildExport = async (exportId: string) => {
+  const dataExport = await prisma.dataExport.findUniqueOrThrow({
+    where: { id: exportId },
+  });
+  try {
+    const { entries, files } = await collectUserData(dataExport.userId);
+    const manifest: DataExportManifest = {
+      format: "user-data-export",
+      version: EXPORT_FORMAT_VERSION,
+      exportId,
+      userId: dataExport.userId,
+      generatedAt: new Date().toISOString(),
+      files,
+    };
+    const archive = createZip([
+      { name: "manifest.json", data: JSON.stringify(manifest, null, 2) },
+      ...entries,
+    ]);
+
+    fs.createFolder(env.dataExport.dir);
+    const filePath = path.resolve(env.dataExport.dir, `${exportId}.zip`);
+    await nodeFs.promises.writeFile(filePath, archive);
+
+    const token = crypto.randomBytes(32).toString("hex");
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: {
+        status: DataExportStatus.ready,
+        filePath,
+        tokenHash: hashDownloadToken(token),
+        completedAt: new Date(),
+        expiresAt: new Date(
+          Date.now() + env.dataExport.linkHours * 60 * 60 * 1000,
+        ),
+      },
+    });
+
+    const requester = await prisma.user.findUnique({
+      where: { id: dataExport.requestedById },
+      select: { email: true },
+    });
+    if (requester) {
+      const downloadLink = `${env.BACKEND_URL}/api/v1/user/exports/download?token=${token}`;
+      await emailHelper.sendDataExportReadyEmail(
+        requester.email,
+        downloadLink,
+        env.dataExport.linkHours,
+      );
+    }
+    logger.info("Data export ready", {
+      exportId,
+      userId: dataExport.userId,
+      size: archive.length,
+    });
+  } catch (error: any) {
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: { status: DataExportStatus.failed, error: error.message },
+    });
+    logger.error("Data export failed", {
+      exportId,
+      userId: dataExport.userId,
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Archives are only kept while their link is valid
+ */
+const cleanupExpiredExports = async () => {
+  const expired = await prisma.dataExport.findMany({
+    where: { expiresAt: { lt: new Date() }, filePath: { not: null } },
+    select: { id: true, filePath: true },
+  });
+  for (const dataExport of expired) {
+    removeArchive(dataExport.filePath);
+  }
+  if (expired.length > 0) {
+    await prisma.dataExport.updateMany({
+      where: { id: { in: expired.map((dataExport) => dataExport.id) } },
+      data: { filePath: null, tokenHash: null },
+    });
+  }
+  return expired.length;
+};
+
+/**
+ * Start building an archive in the background; the requester gets the
+ * download link by email. An export still in progress is reused.
+ */
+const requestExport = async (userId: string, requestedById: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+
+  const pending = await prisma.dataExport.findFirst({
+    where: { userId, requestedById, status: DataExportStatus.pending },
+    select: exportSelect,
+  });
+  if (pending) return pending;
+
+  const dataExport = await prisma.dataExport.create({
+    data: { userId, requestedById },
+    select: exportSelect,
+  });
+
+  setImmediate(() => {
+    buildExport(dataExport.id).catch((error) =>
+      logger.error("Data export job crashed", {
+        exportId: dataExport.id,
+        error: error.message,
+      }),
+    );
+    cleanupExpiredExports().catch((error) =>
+      logger.error("Data export cleanup failed", { error: error.message }),
+    );
+  });
+
+  logger.info("Data export requested", {
+    exportId: dataExport.id,
+    userId,
+    requestedById,
+  });
+  return dataExport;
+};
+
+const listExports = async (userId: string) => {
+  return await prisma.dataExport.findMany({
+    where: { userId },
+    select: exportSelect,
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+const getDownload = async (token: string) => {
+  const dataExport = await prisma.dataExport.findUnique({
+    where: { tokenHash: hashDownloadToken(token) },
+  });
+  if (
+    !dataExport ||
+    dataExport.status !== DataExportStatus.ready ||
+    !dataExport.filePath ||
+    !dataExport.expiresAt ||
+    dataExport.expiresAt < new Date() ||
+    !nodeFs.existsSync(dataExport.filePath)
+  ) {
+    throw new ApiError(
+      httpStatus.GONE,
+      "Download link is invalid or has expired",
+    );
+  }
+  logger.info("Data export downloaded", {
+    exportId: dataExport.id,
+    userId: dataExport.userId,
+  });
+  return {
+    filePath: dataExport.filePath,
+    fileName: `data-export-${dataExport.createdAt.toISOString().slice(0, 10)}.zip`,
+  };
+};
+
+/**
+ * Remove archives of a user whose account is being purged
+ */
+const deleteExportsForUser = async (userId: string) => {
+  const exports = await prisma.dataExport.findMany({
+    where: { userId },
+    select: { filePath: true },
+  });
+  for (const dataExport of exports) {
+    removeArchive(dataExport.filePath);
+  }
+};
+
+export default {
+  requestExport,
+  listExports,
+  getDownload,
+  cleanupExpiredExports,
+  deleteExportsForUser,
+};
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+const requestUserExport = {
+  params: z.object({
+    userId: z.string().uuid(),
+  }),
+};
+
+const downloadExport = {
+  query: z.object({
+    token: z.string().min(1),
+  }),
+};
+
+export default {
+  requestUserExport,
+  downloadExport,
+};
@@ -0,0 +1,126 @@
+import catchAsync from "../../utils/catchAsync";
+import type { Request, Response } from "express";
+import httpStatus from "http-status";
+import pick from "../../utils/pick";
+import response from "../../utils/response";
+import logger from "../../utils/logger";
+import tokenService from "../token/token.service";
+import invitationService from "./invitation.service";
+
+const sendInvitation = catchAsync(async (req: Request, res: Response) => {
+  const invitation = await invitationService.sendInvitation(
+    req.user?.id!,
+    req.body,
+  );
+  res.status(httpStatus.CREATED).json(
+    response({
+      status: httpStatus.CREATED,
+      message: req.str("user.invitation_sent"),
+      data: invitation,
+    }),
+  );
+});
+
+const queryInvitations = catchAsync(async (req: Request, res: Response) => {
+  const filters = pick(req.query, ["email", "status"]);
+  const options = pick(req.query, ["sort", "limit", "page"]);
+  const invitations = await invitationService.queryInvitations(
+    filters as any,
+    options as any,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.invitations_retrieved"),
+      data: invitations,
+    }),
+  );
+});
+
+const resendInvitation = catchAsync(async (req: Request, res: Response) => {
+  const invitation = await invitationService.resendInvitation(
+    req.params.invitationId as string,
+    req.user?.id!,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.invitation_sent"),
+      data: invitation,
+    }),
+  );
+});
+
+const revokeInvitation = catchAsync(async (req: Request, res: Response) => {
+  await invitationService.revokeInvitation(
+    req.params.invitationId as string,
+    req.user?.id!,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.invitation_revoked"),
+    }),
+  );
+});
+
+const getInvitation = catchAsync(async (req: Request, res: Response) => {
+  const invitation = await invitationService.getInvitation(
+    req.query.token as string,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.invitation_retrieved"),
+      data: invitation,
+    }),
+  );
+});
+
+const acceptInvitation = catchAsync(async (req: Request, res: Response) => {
+  const { token: invitationToken, rememberMe = false, ...input } = req.body;
+  const user = await invitationService.acceptInvitation(invitationToken, input);
+
+  const token = await tokenService.generateLoginTokens({
+    userId: user.id,
+    deviceId: req.device?.deviceId,
+    deviceName: req.device?.deviceName,
+    userAgent: req.device?.userAgent,
+    ipAddress: req.device?.ip,
+    rememberMe,
+    metadata: {
+      fingerprint: req.device?.fingerprint,
+      deviceType: req.device?.deviceType,
+      browser: req.device?.browser,
+      os: req.device?.os,
+      timezone: req.device?.timezone,
+      isBot: req.device?.isBot,
+      geo: req.device?.geo,
+    },
+  });
+
+  logger.info("Invited user signed in", {
+    userId: user.id,
+    deviceName: req.device?.deviceName,
+    ip: req.device?.ip,
+  });
+
+  tokenService.setAuthCookies(res, token);
+  res.status(httpStatus.CREATED).json(
+    response({
+      status: httpStatus.CREATED,
+      message: req.str("user.invitation_accepted"),
+      data: user,
+      token,
+    }),
+  );
+});
+
+export default {
+  sendInvitation,
+  queryInvitations,
+  resendInvitation,
+  revokeInvitation,
+  getInvitation,
+  acceptInvitation,
+};
@@ -0,0 +1,5 @@
+export interface AcceptInvitationInput {
+  firstName: string;
+  lastName: string;
+  password: string;
+}
@@ -0,0 +1,48 @@
+import express, { Router } from "express";
+import auth from "../../middlewares/auth";
+import validate from "../../middlewares/validate";
+import invitationController from "./invitation.controller";
+import invitationValidation from "./invitation.validation";
+
+const router: Router = express.Router();
+
+// Public: the invitee has no account yet
+router
+  .route("/accept")
+  .get(
+    validate(invitationValidation.getInvitation),
+    invitationController.getInvitation,
+  )
+  .post(
+    validate(invitationValidation.acceptInvitation),
+    invitationController.acceptInvitation,
+  );
+
+router
+  .route("/")
+  .get(
+    auth("admin"),
+    validate(invitationValidation.queryInvitations),
+    invitationController.queryInvitations,
+  )
+  .post(
+    auth("admin"),
+    validate(invitationValidation.sendInvitation),
+    invitationController.sendInvitation,
+  );
+
+router.post(
+  "/:invitationId/resend",
+  auth("admin"),
+  validate(invitationValidation.resendInvitation),
+  invitationController.resendInvitation,
+);
+
+router.delete(
+  "/:invitationId",
+  auth("admin"),
+  validate(invitationValidation.revokeInvitation),
+  invitationController.revokeInvitation,
+);
+
+export default router;
@@ -0,0 +1,287 @@
+import crypto from "crypto";
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import email from "../../configs/email";
+import ApiError from "../../utils/ApiError";
+import logger from "../../utils/logger";
+import passwordHasher from "../../utils/passwordHasher";
+import { paginate, PaginationOptions } from "../../utils/paginate";
+import { InvitationStatus } from "../../../generated/prisma/enums";
+import type { Prisma } from "../../../generated/prisma/client";
+import roleService from "../role/role.service";
+import passwordService from "../password/password.service";
+import userSelect from "../user/user.select";
+import { AcceptInvitationInput } from "./invitation.interface";
+
+const hashInvitationToken = (token: string) => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  role: true,
+  status: true,
+  invitedById: true,
+  expiresAt: true,
+  sentCount: true,
+  createdAt: true,
+  lastSentAt: true,
+  acceptedAt: true,
+  acceptedUserId: true,
+  revokedAt: true,
+};
+
+const newExpiry = () =>
+  new Date(Date.now() + env.invitation.expiryDays * 24 * 60 * 60 * 1000);
+
+const deliver = async (to: string, inviterId: string, token: string) => {
+  const inviter = await prisma.user.findUnique({
+    where: { id: inviterId },
+    select: { firstName: true, lastName: true, email: true },
+  });
+  const inviterName =
+    [inviter?.firstName, inviter?.lastName].filter(Boolean).join(" ") ||
+    inviter?.email ||
+    env.APP_NAME;
+  const acceptLink = `${env.FRONTEND_URL}/accept-invitation?token=${token}`;
+  setImmediate(() => {
+    email
+      .sendInvitationEmail(
+        to,
+        inviterName,
+        acceptLink,
+        env.invitation.expiryDays,
+      )
+      .catch((err) => logger.error("Error sending invitation email: " + err));
+  });
+};
+
+// Deleted accounts keep their address until they are purged
+const assertNoAccount = async (address: string) => {
+  const existing = await prisma.user.findUnique({
+    where: { email: address },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Email already taken");
+  }
+};
+
+const sendInvitation = async (
+  inviterId: string,
+  input: { email: string; role: string },
+) => {
+  await assertNoAccount(input.email);
+  await roleService.assertRoleExists(input.role);
+
+  // Only the latest invitation to an address stays usable
+  await prisma.invitation.updateMany({
+    where: { email: input.email, status: InvitationStatus.pending },
+    data: { status: InvitationStatus.revoked, revokedAt: new Date() },
+  });
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const invitation = await prisma.invitation.create({
+    data: {
+      email: input.email,
+      role: input.role,
+      invitedById: inviterId,
+      tokenHash: hashInvitationToken(token),
+      expiresAt: newExpiry(),
+    },
+    select: invitationSelect,
+  });
+  await deliver(input.email, inviterId, token);
+
+  logger.info("Invitation sent", {
+    invitationId: invitation.id,
+    inviterId,
+    role: input.role,
+  });
+  return invitation;
+};
+
+/**
+ * Send a fresh link; the previous one stops working
+ */
+const resendInvitation = async (invitationId: string, adminId: string) => {
+  const invitation = await prisma.invitation.findUnique({
+    where: { id: invitationId },
+  });
+  if (!invitation || invitation.status !== InvitationStatus.pending) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Pending invitation not found");
+  }
+  await assertNoAccount(invitation.email);
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const updated = await prisma.invitation.update({
+    where: { id: invitation.id },
+    data: {
+      tokenHash: hashInvitationToken(token),
+      expiresAt: newExpiry(),
+      lastSentAt: new Date(),
+      sentCount: { increment: 1 },
+    },
+    select: invitationSelect,
+  });
+  await deliver(invitation.email, adminId, token);
+
+  logger.info("Invitation resent", { invitationId, adminId });
+  return updated;
+};
+
+const revokeInvitation = async (invitationId: string, adminId: string) => {
+  const result = await prisma.invitation.updateMany({
+    where: { id: invitationId, status: InvitationStatus.pending },
+    data: { status: InvitationStatus.revoked, revokedAt: new Date() },
+  });
+  if (result.count === 0) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Pending invitation not found");
+  }
+  logger.info("Invitation revoked", { invitationId, adminId });
+  return true;
+};
+
+const queryInvitations = async (
+  filters: { email?: string; status?: InvitationStatus },
+  options: PaginationOptions,
+) => {
+  const queryFilters: any = {};
+  if (filters.email) {
+    queryFilters.email = { contains: filters.email, mode: "insensitive" };
+  }
+  if (filters.status) {
+    queryFilters.status = filters.status;
+  }
+  const result = await paginate<any, typeof prisma.invitation>(
+    prisma.invitation,
+    {
+      ...options,
+      page: Number(options.page) || 1,
+      limit: Number(options.limit) || 10,
+      sort: options.sort ?? { createdAt: "desc" },
+    },
+    queryFilters,
+  );
+  return {
+    ...result,
+    data: result.data.map(({ tokenHash, ...invitation }) => invitation),
+  };
+};
+
+/**
+ * A pending, unexpired invitation for the token, optionally for a
+ * specific address
+ */
+const getUsableInvitation = async (token: string, address?: string) => {
+  const invitation = await prisma.invitation.findUnique({
+    where: { tokenHash: hashInvitationToken(token) },
+  });
+  if (
+    !invitation ||
+    invitation.status !== InvitationStatus.pending ||
+    invitation.expiresAt < new Date() ||
+    (address && invitation.email !== address)
+  ) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Invitation is invalid or has expired",
+    );
+  }
+  return invitation;
+};
+
+/**
+ * What the accept page shows before the invitee picks a password
+ */
+const getInvitation = async (token: string) => {
+  const invitation = await getUsableInvitation(token);
+  return {
+    email: invitation.email,
+    role: invitation.role,
+    expiresAt: invitation.expiresAt,
+  };
+};
+
+/**
+ * Claim a pending invitation and create its account in one transaction,
+ * so a token can only be redeemed once and never without an account
+ */
+const redeemInvitation = async <T extends { id: string }>(
+  invitationId: string,
+  createUser: (tx: Prisma.TransactionClient) => Promise<T>,
+) => {
+  return await prisma.$transaction(async (tx) => {
+    const redeemed = await tx.invitation.updateMany({
+      where: { id: invitationId, status: InvitationStatus.pending },
+      data: {
+        status: InvitationStatus.accepted,
+        acceptedAt: new Date(),
+      },
+    });
+    if (redeemed.count === 0) {
+      throw new ApiError(
+        httpStatus.BAD_REQUEST,
+        "Invitation is invalid or has expired",
+      );
+    }
+
+    const user = await createUser(tx);
+    await tx.invitation.update({
+      where: { id: invitationId },
+      data: { acceptedUserId: user.id },
+    });
+    return user;
+  });
+};
+
+const acceptInvitation = async (
+  token: string,
+  input: AcceptInvitationInput,
+) => {
+  const invitation = await getUsableInvitation(token);
+  await assertNoAccount(invitation.email);
+
+  await passwordService.assertPasswordPolicy(input.password, {
+    email: invitation.email,
+    firstName: input.firstName,
+    lastName: input.lastName,
+  });
+  const hashedPassword = await passwordHasher.hash(input.password);
+
+  const user = await redeemInvitation(invitation.id, (tx) => {
+    // The invitation link proves the address, so no verification step
+    const data = {
+      email: invitation.email,
+      firstName: input.firstName,
+      lastName: input.lastName,
+      password: hashedPassword,
+      role: invitation.role,
+      isEmailVerified: true,
+    };
+    return tx.user.create({
+      data,
+      select: userSelect.getUserSelect,
+    });
+  });
+
+  await passwordService.recordPasswordHistory(user.id, hashedPassword);
+  logger.info("Invitation accepted", {
+    invitationId: invitation.id,
+    userId: user.id,
+  });
+  return user;
+};
+
+export default {
+  sendInvitation,
+  resendInvitation,
+  revokeInvitation,
+  queryInvitations,
+  getInvitation,
+  getUsableInvitation,
+  redeemInvitation,
+  acceptInvitation,
+};
@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { defaultRole } from "../../configs/roles";
+
+const sendInvitation = {
+  body: z.object({
+    email: z.string().email(),
+    role: z.string().min(1).default(defaultRole),
+  }),
+};
+
+const queryInvitations = {
+  query: z.object({
+    email: z.string().optional(),
+    status: z.enum(["pending", "accepted", "revoked"]).optional(),
+    sort: z.string().optional(),
+    limit: z.string().optional(),
+    page: z.string().optional(),
+  }),
+};
+
+const invitationId = {
+  params: z.object({
+    invitationId: z.string().uuid(),
+  }),
+};
+
+const getInvitation = {
+  query: z.object({
+    token: z.string().min(1),
+  }),
+};
+
+const acceptInvitation = {
+  body: z.object({
+    token: z.string().min(1),
+    firstName: z.string().min(3).max(30),
+    lastName: z.string().min(3).max(30),
+    // Full password policy is enforced by passwordService
+    password: z.string().min(1).max(128),
+    rememberMe: z.boolean().optional(),
+  }),
+};
+
+export default {
+  sendInvitation,
+  queryInvitations,
+  resendInvitation: invitationId,
+  revokeInvitation: invitationId,
+  getInvitation,
+  acceptInvitation,
+};
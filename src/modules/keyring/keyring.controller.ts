@@ -0,0 +1,53 @@
+import catchAsync from "../../utils/catchAsync";
+import type { Request, Response } from "express";
+import httpStatus from "http-status";
+import response from "../../utils/response";
+import keyringService from "./keyring.service";
+
+/**
+ * Plain JWKS document (RFC 7517) so other services can verify our tokens
+ */
+const getJwks = catchAsync(async (req: Request, res: Response) => {
+  const jwks = await keyringService.getJwks();
+  res.set("Cache-Control", "public, max-age=300");
+  res.status(httpStatus.OK).json(jwks);
+});
+
+const listKeys = catchAsync(async (req: Request, res: Response) => {
+  const keys = await keyringService.listKeys();
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.signing_keys_retrieved"),
+      data: keys,
+    }),
+  );
+});
+
+const rotateKeys = catchAsync(async (req: Request, res: Response) => {
+  const kid = await keyringService.rotate();
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.signing_keys_rotated"),
+      data: { kid },
+    }),
+  );
+});
+
+const revokeKey = catchAsync(async (req: Request, res: Response) => {
+  await keyringService.revokeKey(req.params.kid as string);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.signing_key_revoked"),
+    }),
+  );
+});
+
+export default {
+  getJwks,
+  listKeys,
+  rotateKeys,
+  revokeKey,
+};
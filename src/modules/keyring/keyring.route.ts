@@ -0,0 +1,20 @@
+import express from "express";
+import auth from "../../middlewares/auth";
+import validate from "../../middlewares/validate";
+import keyringController from "./keyring.controller";
+import keyringValidation from "./keyring.validation";
+const router = express.Router();
+
+// THIS ROUTE ONLY CLOSED FOR ADMIN USERS
+router.get("/", auth("admin"), keyringController.listKeys);
+
+router.post("/rotate", auth("admin"), keyringController.rotateKeys);
+
+router.delete(
+  "/:kid",
+  auth("admin"),
+  validate(keyringValidation.revokeKey),
+  keyringController.revokeKey,
+);
+
+export default router;
@@ -0,0 +1,255 @@
+import crypto, { type KeyObject } from "crypto";
+import { exportJWK } from "jose";
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import ApiError from "../../utils/ApiError";
+import logger from "../../utils/logger";
+import { strToDate } from "../../utils/date";
+import { SigningKeyStatus } from "../../../generated/prisma/enums";
+
+const CACHE_TTL_MS = 60 * 1000;
+// Unknown kids trigger a reload, but not more often than this
+const MISS_RELOAD_INTERVAL_MS = 5 * 1000;
+
+export interface LoadedKey {
+  kid: string;
+  algorithm: string;
+  status: SigningKeyStatus;
+  createdAt: Date;
+  expiresAt: Date | null;
+  publicKey: KeyObject;
+  privateKey: KeyObject;
+}
+
+let cache: { keys: Map<string, LoadedKey>; loadedAt: number } | undefined;
+let lastMissReload = 0;
+let pendingRotation: Promise<string> | undefined;
+
+/**
+ * Private keys are stored encrypted with a key derived from JWT_SECRET
+ */
+const encryptionKey = () =>
+  crypto.createHash("sha256").update(`keyring:${env.jwt.secret}`).digest();
+
+const encryptPrivateKey = (pem: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(pem, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64"))
+    .join(".");
+};
+
+const decryptPrivateKey = (stored: string) => {
+  const [iv, tag, encrypted] = stored
+    .split(".")
+    .map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), iv!);
+  decipher.setAuthTag(tag!);
+  return Buffer.concat([
+    decipher.update(encrypted!),
+    decipher.final(),
+  ]).toString("utf8");
+};
+
+const generateKeyPair = (algorithm: string) => {
+  if (algorithm === "EdDSA") {
+    return crypto.generateKeyPairSync("ed25519");
+  }
+  return crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+};
+
+const loadKeys = async () => {
+  const now = new Date();
+  const records = await prisma.signingKey.findMany({
+    where: {
+      OR: [
+        { status: SigningKeyStatus.active },
+        { status: SigningKeyStatus.retiring, expiresAt: { gt: now } },
+      ],
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const keys = new Map<string, LoadedKey>();
+  for (const record of records) {
+    try {
+      keys.set(record.kid, {
+        kid: record.kid,
+        algorithm: record.algorithm,
+        status: record.status,
+        createdAt: record.createdAt,
+        expiresAt: record.expiresAt,
+        publicKey: crypto.createPublicKey(record.publicKey),
+        privateKey: crypto.createPrivateKey(
+          decryptPrivateKey(record.privateKey),
+        ),
+      });
+    } catch (error: any) {
+      logger.error("Failed to load signing key", {
+        kid: record.kid,
+        error: error.message,
+      });
+    }
+  }
+  cache = { keys, loadedAt: Date.now() };
+  return keys;
+};
+
+const getKeys = async () => {
+  if (!cache || Date.now() - cache.loadedAt > CACHE_TTL_MS) {
+    return await loadKeys();
+  }
+  return cache.keys;
+};
+
+const createKey = async () => {
+  const algorithm = env.jwt.algorithm;
+  const { publicKey, privateKey } = generateKeyPair(algorithm);
+  const kid = crypto.randomBytes(12).toString("hex");
+
+  await prisma.signingKey.create({
+    data: {
+      kid,
+      algorithm,
+      publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+      privateKey: encryptPrivateKey(
+        privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+      ),
+    },
+  });
+  logger.info("Signing key created", { kid, algorithm });
+  return kid;
+};
+
+/**
+ * Make a new key active. Previous active keys keep verifying tokens
+ * until the longest-lived token they could have signed has expired.
+ */
+const rotateKeys = async () => {
+  const now = new Date();
+  const previous = await prisma.signingKey.findMany({
+    where: { status: SigningKeyStatus.active },
+    select: { kid: true },
+  });
+
+  const kid = await createKey();
+  await prisma.signingKey.updateMany({
+    where: { kid: { in: previous.map((key) => key.kid) } },
+    data: {
+      status: SigningKeyStatus.retiring,
+      retiredAt: now,
+      expiresAt: strToDate(env.jwt.expiryRefreshToken, now),
+    },
+  });
+  await prisma.signingKey.deleteMany({
+    where: {
+      status: SigningKeyStatus.retiring,
+      expiresAt: { lt: now },
+    },
+  });
+
+  logger.info("Signing keys rotated", {
+    kid,
+    retired: previous.map((key) => key.kid),
+  });
+  await loadKeys();
+  return kid;
+};
+
+const rotate = () => {
+  // Concurrent callers in this process share one rotation
+  pendingRotation ??= rotateKeys().finally(() => {
+    pendingRotation = undefined;
+  });
+  return pendingRotation;
+};
+
+const getSigningKey = async (): Promise<LoadedKey> => {
+  const keys = await getKeys();
+  // Keys are ordered newest first
+  const active = [...keys.values()].find(
+    (key) =>
+      key.status === SigningKeyStatus.active &&
+      key.algorithm === env.jwt.algorithm,
+  );
+
+  if (!active) {
+    await rotate();
+    return await getSigningKey();
+  }
+
+  const { rotationDays } = env.jwt;
+  const ageMs = Date.now() - active.createdAt.getTime();
+  if (rotationDays > 0 && ageMs > rotationDays * 24 * 60 * 60 * 1000) {
+    await rotate();
+    return await getSigningKey();
+  }
+  return active;
+};
+
+const getVerificationKey = async (kid?: string) => {
+  if (!kid) return undefined;
+  let key = (await getKeys()).get(kid);
+  if (!key && Date.now() - lastMissReload > MISS_RELOAD_INTERVAL_MS) {
+    // Possibly rotated by another instance
+    lastMissReload = Date.now();
+    key = (await loadKeys()).get(kid);
+  }
+  return key;
+};
+
+const getJwks = async () => {
+  const keys = await getKeys();
+  const jwks = await Promise.all(
+    [...keys.values()].map(async (key) => ({
+      ...(await exportJWK(key.publicKey)),
+      kid: key.kid,
+      alg: key.algorithm,
+      use: "sig",
+    })),
+  );
+  return { keys: jwks };
+};
+
+const listKeys = async () => {
+  return await prisma.signingKey.findMany({
+    select: {
+      kid: true,
+      algorithm: true,
+      status: true,
+      createdAt: true,
+      retiredAt: true,
+      expiresAt: true,
+    },
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+const revokeKey = async (kid: string) => {
+  const key = await prisma.signingKey.findUnique({ where: { kid } });
+  if (!key) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Signing key not found");
+  }
+  if (key.status === SigningKeyStatus.active) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Rotate the keyring before revoking the active key",
+    );
+  }
+  // Tokens signed with a revoked key stop verifying immediately
+  await prisma.signingKey.delete({ where: { kid } });
+  logger.warn("Signing key revoked", { kid });
+  await loadKeys();
+  return true;
+};
+
+export default {
+  rotate,
+  getSigningKey,
+  getVerificationKey,
+  getJwks,
+  listKeys,
+  revokeKey,
+};
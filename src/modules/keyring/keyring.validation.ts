@@ -0,0 +1,9 @@
+import { z } from "zod";
+
+const revokeKey = {
+  params: z.object({
+    kid: z.string(),
+  }),
+};
+
+export default { revokeKey };
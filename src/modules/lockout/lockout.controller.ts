@@ -0,0 +1,38 @@
+import catchAsync from "../../utils/catchAsync";
+import type { Request, Response } from "express";
+import httpStatus from "http-status";
+import pick from "../../utils/pick";
+import response from "../../utils/response";
+import lockoutService from "./lockout.service";
+
+const queryLockouts = catchAsync(async (req: Request, res: Response) => {
+  const filters = pick(req.query, ["scope", "key", "active"]);
+  const options = pick(req.query, ["sort", "limit", "page"]);
+  const lockouts = await lockoutService.queryLockouts(
+    filters as any,
+    options as any,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.lockouts_retrieved"),
+      data: lockouts,
+    }),
+  );
+});
+
+const clearLockout = catchAsync(async (req: Request, res: Response) => {
+  await lockoutService.clearLockout(
+    req.params.lockoutId as string,
+    req.user?.id,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.lockout_cleared"),
+      data: {},
+    }),
+  );
+});
+
+export default { queryLockouts, clearLockout };
@@ -0,0 +1,23 @@
+import express from "express";
+import auth from "../../middlewares/auth";
+import validate from "../../middlewares/validate";
+import lockoutController from "./lockout.controller";
+import lockoutValidation from "./lockout.validation";
+const router = express.Router();
+
+// THIS ROUTE ONLY CLOSED FOR ADMIN USERS
+router.get(
+  "/all",
+  auth("admin"),
+  validate(lockoutValidation.queryLockouts),
+  lockoutController.queryLockouts,
+);
+
+router.delete(
+  "/clear/:lockoutId",
+  auth("admin"),
+  validate(lockoutValidation.clearLockout),
+  lockoutController.clearLockout,
+);
+
+export default router;
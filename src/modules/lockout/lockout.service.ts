@@ -0,0 +1,304 @@
+import crypto from "crypto";
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import emailHelper from "../../configs/email";
+import ApiError from "../../utils/ApiError";
+import logger from "../../utils/logger";
+import { paginate, PaginationOptions } from "../../utils/paginate";
+import { LockoutScope } from "../../../generated/prisma/enums";
+import { DeviceInfo } from "../../types/express";
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const hashUnlockToken = (token: string) => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+const deviceLogInfo = (device?: DeviceInfo) => ({
+  ip: device?.ip,
+  deviceName: device?.deviceName,
+  userAgent: device?.userAgent,
+  fingerprint: device?.fingerprint,
+  deviceId: device?.deviceId,
+});
+
+/**
+ * Delay before the next attempt is allowed, doubling per failure
+ * once `backoffAfter` failures have been reached.
+ */
+const getBackoffSeconds = (failedCount: number) => {
+  const { backoffAfter, backoffBaseSeconds, backoffMaxSeconds } = env.login;
+  if (failedCount < backoffAfter) return 0;
+  const exponent = failedCount - backoffAfter;
+  return Math.min(
+    backoffBaseSeconds * Math.pow(2, exponent),
+    backoffMaxSeconds,
+  );
+};
+
+const getLockouts = async (email: string, ipAddress?: string) => {
+  const keys: { scope: LockoutScope; key: string }[] = [
+    { scope: LockoutScope.account, key: normalizeEmail(email) },
+  ];
+  if (ipAddress) {
+    keys.push({ scope: LockoutScope.ip, key: ipAddress });
+  }
+  return await prisma.loginLockout.findMany({
+    where: { OR: keys },
+  });
+};
+
+/**
+ * Reject the attempt before checking the password if the account
+ * or the IP address is locked or still inside its backoff delay.
+ */
+const assertCanAttempt = async (email: string, device?: DeviceInfo) => {
+  const now = new Date();
+  const lockouts = await getLockouts(email, device?.ip);
+
+  for (const lockout of lockouts) {
+    if (lockout.lockedUntil && lockout.lockedUntil > now) {
+      logger.warn("Login attempt while locked", {
+        scope: lockout.scope,
+        key: lockout.key,
+        ...deviceLogInfo(device),
+      });
+      if (lockout.scope === LockoutScope.account) {
+        throw new ApiError(
+          httpStatus.LOCKED,
+          "Account is temporarily locked. Check your email to unlock it",
+        );
+      }
+      throw new ApiError(
+        httpStatus.TOO_MANY_REQUESTS,
+        "Too many failed login attempts from this network",
+      );
+    }
+
+    if (lockout.nextAttemptAt && lockout.nextAttemptAt > now) {
+      const waitSeconds = Math.ceil(
+        (lockout.nextAttemptAt.getTime() - now.getTime()) / 1000,
+      );
+      throw new ApiError(
+        httpStatus.TOO_MANY_REQUESTS,
+        `Too many failed login attempts. Try again in ${waitSeconds} seconds`,
+      );
+    }
+  }
+};
+
+/**
+ * Count one failure with atomic updates only, so concurrent failures
+ * cannot overwrite each other's increments
+ */
+const recordFailureFor = async (
+  scope: LockoutScope,
+  key: string,
+  device?: DeviceInfo,
+  userId?: string,
+) => {
+  const now = new Date();
+  const windowStart = new Date(
+    now.getTime() - env.login.failureWindowMinutes * 60 * 1000,
+  );
+
+  // Failures outside the window, or from an expired lock, start over
+  await prisma.loginLockout.updateMany({
+    where: {
+      scope,
+      key,
+      OR: [
+        { lastFailedAt: null },
+        { lastFailedAt: { lt: windowStart } },
+        { lockedUntil: { lte: now } },
+      ],
+    },
+    data: { failedCount: 0, nextAttemptAt: null, lockedUntil: null },
+  });
+
+  const seen = {
+    lastFailedAt: now,
+    lastIpAddress: device?.ip,
+    lastUserAgent: device?.userAgent,
+  };
+  const counted = await prisma.loginLockout.upsert({
+    where: { scope_key: { scope, key } },
+    update: {
+      ...seen,
+      failedCount: { increment: 1 },
+      ...(userId && { userId }),
+    },
+    create: { scope, key, userId, failedCount: 1, ...seen },
+  });
+
+  const threshold =
+    scope === LockoutScope.account
+      ? env.login.lockThreshold
+      : env.login.ipLockThreshold;
+  const backoffSeconds = getBackoffSeconds(counted.failedCount);
+  if (backoffSeconds) {
+    await prisma.loginLockout.update({
+      where: { id: counted.id },
+      data: { nextAttemptAt: new Date(now.getTime() + backoffSeconds * 1000) },
+    });
+  }
+
+  // Only the request that sets the lock reports it, so one email goes out
+  let justLocked = false;
+  if (counted.failedCount >= threshold) {
+    const locked = await prisma.loginLockout.updateMany({
+      where: { id: counted.id, lockedUntil: null },
+      data: {
+        lockedUntil: new Date(
+          now.getTime() + env.login.lockMinutes * 60 * 1000,
+        ),
+      },
+    });
+    justLocked = locked.count === 1;
+  }
+
+  const lockout = await prisma.loginLockout.findUniqueOrThrow({
+    where: { id: counted.id },
+  });
+  return { lockout, justLocked };
+};
+
+const sendUnlockEmail = async (lockoutId: string, email: string) => {
+  const unlockToken = crypto.randomBytes(32).toString("hex");
+  await prisma.loginLockout.update({
+    where: { id: lockoutId },
+    data: { unlockTokenHash: hashUnlockToken(unlockToken) },
+  });
+
+  const unlockLink = `${env.FRONTEND_URL}/unlock-account?token=${unlockToken}`;
+  setImmediate(() => {
+    emailHelper
+      .sendAccountLockedEmail(email, unlockLink, env.login.lockMinutes)
+      .catch((err) =>
+        logger.error("Error sending account locked email: " + err),
+      );
+  });
+};
+
+/**
+ * Count a failed login against both the account and the IP address
+ */
+const recordFailure = async (
+  email: string,
+  device?: DeviceInfo,
+  user?: { id: string; email: string } | null,
+) => {
+  const account = await recordFailureFor(
+    LockoutScope.account,
+    normalizeEmail(email),
+    device,
+    user?.id,
+  );
+
+  if (account.justLocked) {
+    logger.warn("Account locked after repeated failed logins", {
+      email: normalizeEmail(email),
+      userId: user?.id,
+      failedCount: account.lockout.failedCount,
+      lockedUntil: account.lockout.lockedUntil,
+      ...deviceLogInfo(device),
+    });
+    if (user) {
+      await sendUnlockEmail(account.lockout.id, user.email);
+    }
+  }
+
+  if (device?.ip) {
+    const ip = await recordFailureFor(LockoutScope.ip, device.ip, device);
+    if (ip.justLocked) {
+      logger.warn("IP address locked after repeated failed logins", {
+        failedCount: ip.lockout.failedCount,
+        lockedUntil: ip.lockout.lockedUntil,
+        ...deviceLogInfo(device),
+      });
+    }
+  }
+};
+
+/**
+ * A successful login clears the account counter. The IP counter is left
+ * to expire on its own so one valid account cannot reset it.
+ */
+const recordSuccess = async (email: string) => {
+  await prisma.loginLockout.deleteMany({
+    where: { scope: LockoutScope.account, key: normalizeEmail(email) },
+  });
+};
+
+const unlockWithToken = async (token: string, device?: DeviceInfo) => {
+  const lockout = await prisma.loginLockout.findUnique({
+    where: { unlockTokenHash: hashUnlockToken(token) },
+  });
+  if (!lockout || !lockout.lockedUntil || lockout.lockedUntil < new Date()) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid or expired unlock link");
+  }
+
+  await prisma.loginLockout.delete({ where: { id: lockout.id } });
+  logger.info("Account unlocked via email link", {
+    key: lockout.key,
+    userId: lockout.userId,
+    ...deviceLogInfo(device),
+  });
+  return true;
+};
+
+const queryLockouts = async (
+  filters: { scope?: LockoutScope; key?: string; active?: string },
+  options: PaginationOptions,
+) => {
+  const queryFilters: any = {};
+  if (filters.scope) {
+    queryFilters.scope = filters.scope;
+  }
+  if (filters.key) {
+    queryFilters.key = { contains: filters.key, mode: "insensitive" };
+  }
+  if (filters.active === "true") {
+    const now = new Date();
+    queryFilters.OR = [
+      { lockedUntil: { gt: now } },
+      { nextAttemptAt: { gt: now } },
+    ];
+  }
+  return await paginate(
+    prisma.loginLockout,
+    {
+      ...options,
+      page: Number(options.page) || 1,
+      limit: Number(options.limit) || 10,
+    },
+    queryFilters,
+  );
+};
+
+const clearLockout = async (lockoutId: string, adminId?: string) => {
+  const lockout = await prisma.loginLockout.findUnique({
+    where: { id: lockoutId },
+  });
+  if (!lockout) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Lockout not found");
+  }
+  await prisma.loginLockout.delete({ where: { id: lockoutId } });
+  logger.info("Login lockout cleared by admin", {
+    lockoutId,
+    scope: lockout.scope,
+    key: lockout.key,
+    adminId,
+  });
+  return true;
+};
+
+export default {
+  assertCanAttempt,
+  recordFailure,
+  recordSuccess,
+  unlockWithToken,
+  queryLockouts,
+  clearLockout,
+};
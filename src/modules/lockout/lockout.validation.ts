@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+const queryLockouts = {
+  query: z.object({
+    scope: z.enum(["account", "ip"]).optional(),
+    key: z.string().optional(),
+    active: z.enum(["true", "false"]).optional(),
+    sort: z.string().optional(),
+    limit: z.string().optional(),
+    page: z.string().optional(),
+  }),
+};
+
+const clearLockout = {
+  params: z.object({
+    lockoutId: z.string().uuid(),
+  }),
+};
+
+export default { queryLockouts, clearLockout };
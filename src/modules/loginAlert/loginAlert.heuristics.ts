@@ -0,0 +1,120 @@
+import net from "net";
+import env from "../../configs/variables";
+import { LoginEvent, LoginGeo, LoginHeuristic } from "./loginAlert.interface";
+
+// Geo-IP data is coarse; shorter jumps are never reported
+const MIN_TRAVEL_KM = 100;
+
+const expandIPv6 = (address: string) => {
+  const [head, tail = ""] = address.split("::");
+  const left = head ? head.split(":") : [];
+  const right = tail ? tail.split(":") : [];
+  const missing = address.includes("::") ? 8 - left.length - right.length : 0;
+  return [...left, ...Array(missing).fill("0"), ...right].map((part) =>
+    part.toLowerCase().padStart(4, "0"),
+  );
+};
+
+/**
+ * The /24 (IPv4) or /48 (IPv6) network an address belongs to
+ */
+const ipRange = (ip?: string | null) => {
+  if (!ip) return undefined;
+  const address = ip.replace(/^::ffff:/i, "");
+  if (net.isIPv4(address)) {
+    return address.split(".").slice(0, 3).join(".");
+  }
+  if (net.isIPv6(address)) {
+    return expandIPv6(address).slice(0, 3).join(":");
+  }
+  return undefined;
+};
+
+const hasCoordinates = (
+  geo?: LoginGeo,
+): geo is LoginGeo & { latitude: number; longitude: number } =>
+  geo?.latitude !== undefined && geo?.longitude !== undefined;
+
+const distanceKm = (
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number },
+) => {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(to.latitude - from.latitude);
+  const dLon = rad(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(from.latitude)) *
+      Math.cos(rad(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const describePlace = (login: LoginEvent) =>
+  [login.geo?.city, login.geo?.country].filter(Boolean).join(", ") ||
+  login.ipAddress ||
+  "an unknown location";
+
+/**
+ * Prefers the client supplied device id and falls back to the
+ * server side fingerprint
+ */
+const newDevice: LoginHeuristic = {
+  name: "new_device",
+  evaluate: ({ login, history }) => {
+    const known = login.deviceId
+      ? history.some((previous) => previous.deviceId === login.deviceId)
+      : !!login.fingerprint &&
+        history.some((previous) => previous.fingerprint === login.fingerprint);
+    if (known || (!login.deviceId && !login.fingerprint)) return null;
+    return {
+      heuristic: "new_device",
+      reason: `First sign-in from ${login.deviceName || "this device"}`,
+    };
+  },
+};
+
+const newNetwork: LoginHeuristic = {
+  name: "new_network",
+  evaluate: ({ login, history }) => {
+    const range = ipRange(login.ipAddress);
+    if (!range) return null;
+    if (history.some((previous) => ipRange(previous.ipAddress) === range)) {
+      return null;
+    }
+    return {
+      heuristic: "new_network",
+      reason: `First sign-in from the network of ${login.ipAddress}`,
+    };
+  },
+};
+
+/**
+ * Compares with the latest located login; only works when the edge
+ * proxy supplies coordinates (see `deviceMiddleware`)
+ */
+const impossibleTravel: LoginHeuristic = {
+  name: "impossible_travel",
+  evaluate: ({ login, history }) => {
+    const previous = history.find((item) => hasCoordinates(item.geo));
+    const from = previous?.geo;
+    if (!previous || !hasCoordinates(from) || !hasCoordinates(login.geo)) {
+      return null;
+    }
+
+    const km = distanceKm(from, login.geo);
+    if (km < MIN_TRAVEL_KM) return null;
+
+    const hours = Math.max(
+      (login.at.getTime() - previous.at.getTime()) / (60 * 60 * 1000),
+      1 / 60,
+    );
+    if (km / hours <= env.loginAlert.maxSpeedKmh) return null;
+    return {
+      heuristic: "impossible_travel",
+      reason: `Signed in from ${describePlace(login)}, ${Math.round(km)} km from the previous sign-in in ${describePlace(previous)}`,
+    };
+  },
+};
+
+export default [newDevice, newNetwork, impossibleTravel];
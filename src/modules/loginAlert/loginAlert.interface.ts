@@ -0,0 +1,42 @@
+import type { DeviceInfo } from "../../types/express";
+
+export type LoginGeo = NonNullable<DeviceInfo["geo"]>;
+
+/**
+ * A login as recorded on the first refresh token of its session
+ */
+export interface LoginEvent {
+  sessionId: string;
+  at: Date;
+  ipAddress?: string | null;
+  deviceId?: string | null;
+  deviceName?: string | null;
+  fingerprint?: string;
+  browser?: string;
+  os?: string;
+  deviceType?: string;
+  geo?: LoginGeo;
+}
+
+export interface LoginHeuristicContext {
+  userId: string;
+  login: LoginEvent;
+  // Earlier logins of the user, newest first
+  history: LoginEvent[];
+}
+
+export interface LoginSignal {
+  heuristic: string;
+  reason: string;
+}
+
+/**
+ * Decides whether a login looks unfamiliar. Returning a signal
+ * triggers the new-device alert; `null` means nothing suspicious.
+ */
+export interface LoginHeuristic {
+  name: string;
+  evaluate: (
+    context: LoginHeuristicContext,
+  ) => LoginSignal | null | Promise<LoginSignal | null>;
+}
@@ -0,0 +1,196 @@
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import emailHelper from "../../configs/email";
+import ApiError from "../../utils/ApiError";
+import jwt from "../../utils/jwt";
+import logger from "../../utils/logger";
+import { emitToUser } from "../../utils/socket";
+import { tokenType } from "../../../generated/prisma/enums";
+import builtInHeuristics from "./loginAlert.heuristics";
+import {
+  LoginEvent,
+  LoginHeuristic,
+  LoginSignal,
+} from "./loginAlert.interface";
+
+// Refresh token rows compared against, newest first
+const HISTORY_SIZE = 200;
+
+const heuristics: LoginHeuristic[] = builtInHeuristics.filter((heuristic) =>
+  env.loginAlert.heuristics.includes(heuristic.name),
+);
+
+/**
+ * Add (or replace by name) a heuristic run on every login
+ */
+const registerHeuristic = (heuristic: LoginHeuristic) => {
+  const index = heuristics.findIndex((item) => item.name === heuristic.name);
+  if (index >= 0) {
+    heuristics[index] = heuristic;
+  } else {
+    heuristics.push(heuristic);
+  }
+};
+
+const toLoginEvent = (token: {
+  tokenFamily: string | null;
+  replacesTokenId: string | null;
+  createdAt: Date;
+  ipAddress: string | null;
+  deviceId: string | null;
+  deviceName: string | null;
+  metadata: any;
+}): LoginEvent => {
+  const metadata = token.metadata || {};
+  return {
+    sessionId: token.tokenFamily!,
+    at: token.createdAt,
+    ipAddress: token.ipAddress,
+    deviceId: token.deviceId,
+    deviceName: token.deviceName,
+    fingerprint: metadata.fingerprint,
+    browser: metadata.browser,
+    os: metadata.os,
+    deviceType: metadata.deviceType,
+    // Rotated tokens copy the login's metadata, so only the first
+    // token of a session knows where it was at that time
+    geo: token.replacesTokenId ? undefined : metadata.geo,
+  };
+};
+
+const describeDevice = (login: LoginEvent) => ({
+  deviceName:
+    login.deviceName ||
+    [login.browser, login.os].filter(Boolean).join(" on ") ||
+    "Unknown device",
+  ipAddress: login.ipAddress || "Unknown",
+  location:
+    [login.geo?.city, login.geo?.country].filter(Boolean).join(", ") ||
+    "Unknown",
+  time: login.at.toUTCString(),
+});
+
+const notify = async (
+  userId: string,
+  login: LoginEvent,
+  signals: LoginSignal[],
+) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true },
+  });
+  if (!user) return;
+
+  const reportToken = await jwt.generateToken(
+    { sub: userId, sid: login.sessionId, type: tokenType.session_report },
+    env.loginAlert.reportExpiry,
+  );
+  const reportLink = `${env.FRONTEND_URL}/secure-account?token=${encodeURIComponent(reportToken)}`;
+  const device = describeDevice(login);
+
+  await emailHelper.sendNewLoginAlertEmail(user.email, device, reportLink);
+  emitToUser(userId, "new-login-alert", {
+    sessionId: login.sessionId,
+    device,
+    reasons: signals.map((signal) => signal.reason),
+  });
+};
+
+/**
+ * Run the heuristics against a freshly created session and alert
+ * the user when any of them flags it. Logins from a device that proved
+ * it is trusted are never flagged.
+ */
+const checkLogin = async (
+  userId: string,
+  sessionId: string,
+  trustedDevice = false,
+) => {
+  if (!env.loginAlert.enabled || heuristics.length === 0) return [];
+
+  const tokens = await prisma.token.findMany({
+    where: { userId, type: tokenType.refresh, tokenFamily: { not: null } },
+    select: {
+      tokenFamily: true,
+      replacesTokenId: true,
+      createdAt: true,
+      ipAddress: true,
+      deviceId: true,
+      deviceName: true,
+      metadata: true,
+    },
+    orderBy: { createdAt: "desc" },
+    take: HISTORY_SIZE,
+  });
+
+  const current = tokens.find((token) => token.tokenFamily === sessionId);
+  const history = tokens
+    .filter((token) => token.tokenFamily !== sessionId)
+    .map(toLoginEvent);
+  // A first login has nothing to be compared with
+  if (!current || history.length === 0) return [];
+
+  const login = toLoginEvent(current);
+  if (trustedDevice) return [];
+
+  const context = { userId, login, history };
+  const signals: LoginSignal[] = [];
+  for (const heuristic of heuristics) {
+    try {
+      const signal = await heuristic.evaluate(context);
+      if (signal) signals.push(signal);
+    } catch (error: any) {
+      logger.error("Login heuristic failed", {
+        heuristic: heuristic.name,
+        error: error.message,
+      });
+    }
+  }
+
+  if (signals.length > 0) {
+    logger.warn("Unfamiliar login detected", {
+      userId,
+      sessionId,
+      heuristics: signals.map((signal) => signal.heuristic),
+    });
+    await notify(userId, login, signals);
+  }
+  return signals;
+};
+
+/**
+ * "This wasn't me": revoke the session the alert was sent for
+ */
+const reportSession = async (token: string) => {
+  const payload = await jwt.verifyToken(token);
+  if (payload.type !== tokenType.session_report || !payload.sid) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid report link");
+  }
+
+  const result = await prisma.token.updateMany({
+    where: {
+      userId: payload.sub,
+      tokenFamily: payload.sid,
+      isRevoked: false,
+    },
+    data: {
+      isRevoked: true,
+      revokedAt: new Date(),
+      revokedReason: "Reported by user as not theirs",
+    },
+  });
+
+  logger.warn("Session reported by user", {
+    userId: payload.sub,
+    sessionId: payload.sid,
+    revoked: result.count,
+  });
+  return true;
+};
+
+export default {
+  registerHeuristic,
+  checkLogin,
+  reportSession,
+};
@@ -0,0 +1,34 @@
+import type { Strategy } from "passport";
+
+/**
+ * Provider-neutral profile every provider maps its users to
+ */
+export interface OAuthProfile {
+  provider: string;
+  subject: string;
+  email?: string;
+  // Only verified emails are used to link an existing account
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+  avatar?: string;
+}
+
+export type OAuthVerifyDone = (error: any, user?: any) => void;
+
+/**
+ * Called by a provider's passport strategy with the raw data it
+ * received; the registry maps it with `mapProfile` and signs the user in.
+ */
+export type OAuthStrategyVerify = (raw: any, done: OAuthVerifyDone) => void;
+
+export interface OAuthProvider {
+  name: string;
+  // Scopes requested by the browser redirect flow
+  scope: string[];
+  // Redirect flow (`/auth/oauth/:provider`)
+  createStrategy?: (verify: OAuthStrategyVerify) => Promise<Strategy>;
+  // Mobile flow (`/auth/mobile/oauth`); resolves already-mapped claims
+  verifyIdToken?: (idToken: string) => Promise<OAuthProfile>;
+  mapProfile: (raw: any) => OAuthProfile;
+}
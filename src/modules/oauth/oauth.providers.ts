@@ -0,0 +1,289 @@
+import AppleStrategy from "passport-apple";
+import GoogleStrategy from "passport-google-oauth20";
+import OAuth2Strategy from "passport-oauth2";
+import axios from "axios";
+import jwksClient from "jwks-rsa";
+import httpStatus from "http-status";
+import env from "../../configs/variables";
+import ApiError from "../../utils/ApiError";
+import jwt from "../../utils/jwt";
+import tokenService from "../token/token.service";
+import { OAuthProfile, OAuthProvider } from "./oauth.interface";
+
+const callbackUrl = (name: string) => `${env.oauth.callbackBaseUrl}/${name}`;
+
+const google = (): OAuthProvider => ({
+  name: "google",
+  scope: ["profile", "email"],
+  // The ID-token flow only needs the client ID
+  createStrategy: env.google.clientSecret
+    ? async (verify) =>
+        new GoogleStrategy.Strategy(
+          {
+            clientID: env.google.clientId!,
+            clientSecret: env.google.clientSecret!,
+            callbackURL: env.google.callbackUrl,
+          },
+          (accessToken, refreshToken, profile, done) => verify(profile, done),
+        )
+    : undefined,
+  verifyIdToken: async (idToken) => {
+    const payload = await tokenService.verifyGoogleIdToken(idToken);
+    return {
+      provider: "google",
+      subject: payload.providerId,
+      email: payload.email,
+      // verifyGoogleIdToken rejects unverified emails
+      emailVerified: true,
+      firstName: payload.firstName,
+      lastName: payload.lastName,
+      avatar: payload.avatar,
+    };
+  },
+  mapProfile: (profile): OAuthProfile => ({
+    provider: "google",
+    subject: profile.id,
+    email: profile.emails?.[0]?.value,
+    emailVerified: profile.emails?.[0]?.verified !== false,
+    firstName: profile.name?.givenName,
+    lastName: profile.name?.familyName,
+    avatar: profile.photos?.[0]?.value,
+  }),
+});
+
+const apple = (): OAuthProvider => ({
+  name: "apple",
+  scope: [],
+  createStrategy:
+    env.apple.teamId && env.apple.keyId && env.apple.privateKey
+      ? async (verify) =>
+          new AppleStrategy.Strategy(
+            {
+              clientID: env.apple.clientId!,
+              teamID: env.apple.teamId!,
+              keyID: env.apple.keyId!,
+              privateKeyString: env.apple.privateKey,
+              callbackURL: env.apple.callbackUrl,
+              passReqToCallback: false,
+            },
+            (accessToken, refreshToken, idToken: any, profile: any, done) =>
+              verify({ idToken, profile }, done),
+          )
+      : undefined,
+  verifyIdToken: async (idToken) => {
+    const payload = await tokenService.verifyAppleIdToken(idToken);
+    return {
+      provider: "apple",
+      subject: payload.providerId,
+      email: payload.email,
+      // Apple only releases addresses it has verified
+      emailVerified: !!payload.email,
+      firstName: payload.firstName || undefined,
+      lastName: payload.lastName || undefined,
+    };
+  },
+  mapProfile: ({ idToken, profile }): OAuthProfile => {
+    const email = profile?.email || idToken?.email;
+    return {
+      provider: "apple",
+      subject: profile?.id || idToken?.sub,
+      email,
+      emailVerified: !!email,
+      firstName: profile?.name?.firstName,
+      lastName: profile?.name?.lastName,
+    };
+  },
+});
+
+const github = (): OAuthProvider => ({
+  name: "github",
+  scope: ["read:user", "user:email"],
+  createStrategy: async (verify) => {
+    const strategy = new OAuth2Strategy(
+      {
+        authorizationURL: "https://github.com/login/oauth/authorize",
+        tokenURL: "https://github.com/login/oauth/access_token",
+        clientID: env.oauth.github.clientId!,
+        clientSecret: env.oauth.github.clientSecret!,
+        callbackURL: callbackUrl("github"),
+      },
+      (
+        accessToken: string,
+        refreshToken: string,
+        profile: any,
+        done: OAuth2Strategy.VerifyCallback,
+      ) => verify(profile, done),
+    );
+    // GitHub is plain OAuth2, so the profile comes from its REST API
+    strategy.userProfile = (accessToken, done) => {
+      const headers = {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: "application/vnd.github+json",
+      };
+      Promise.all([
+        axios.get("https://api.github.com/user", { headers }),
+        axios.get("https://api.github.com/user/emails", { headers }),
+      ])
+        .then(([user, emails]) =>
+          done(null, { ...user.data, emails: emails.data }),
+        )
+        .catch((error) => done(error));
+    };
+    return strategy;
+  },
+  mapProfile: (profile): OAuthProfile => {
+    const primary = (profile.emails || []).find((item: any) => item.primary);
+    const [firstName, ...rest] = (profile.name || profile.login || "").split(
+      " ",
+    );
+    return {
+      provider: "github",
+      subject: String(profile.id),
+      email: primary?.email,
+      emailVerified: !!primary?.verified,
+      firstName: firstName || undefined,
+      lastName: rest.join(" ") || undefined,
+      avatar: profile.avatar_url,
+    };
+  },
+});
+
+interface OidcConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scope: string;
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/**
+ * Any issuer publishing `/.well-known/openid-configuration`.
+ * Discovery runs once, the first time the provider is used.
+ */
+const oidc = (config: OidcConfig): OAuthProvider => {
+  let discovery: Promise<OidcDiscovery> | undefined;
+  let keys: jwksClient.JwksClient | undefined;
+
+  const discover = () => {
+    if (!discovery) {
+      const url = `${config.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+      discovery = axios
+        .get<OidcDiscovery>(url)
+        .then((res) => res.data)
+        .catch((error) => {
+          discovery = undefined;
+          throw error;
+        });
+    }
+    return discovery;
+  };
+
+  const verifyClaims = async (idToken: string) => {
+    const metadata = await discover();
+    keys ??= jwksClient({ jwksUri: metadata.jwks_uri, cache: true });
+
+    const decoded = jwt.decodeToken(idToken);
+    if (!decoded || typeof decoded === "string") {
+      throw new ApiError(httpStatus.UNAUTHORIZED, "Invalid ID token");
+    }
+    // Multi-tenant issuers (e.g. Microsoft "common") template the tenant
+    const issuer = metadata.issuer.replace(
+      "{tenantid}",
+      decoded.payload?.tid ?? "",
+    );
+    try {
+      const key = await keys.getSigningKey(decoded.header.kid);
+      return jwt.jwt.verify(idToken, key.getPublicKey(), {
+        audience: config.clientId,
+        issuer,
+      }) as any;
+    } catch (error) {
+      throw new ApiError(httpStatus.UNAUTHORIZED, "Invalid ID token");
+    }
+  };
+
+  const mapProfile = (claims: any): OAuthProfile => ({
+    provider: config.name,
+    subject: claims.sub,
+    email: claims.email,
+    emailVerified: claims.email_verified === true,
+    firstName: claims.given_name,
+    lastName: claims.family_name,
+    avatar: claims.picture,
+  });
+
+  return {
+    name: config.name,
+    scope: config.scope.split(" "),
+    createStrategy: async (verify) => {
+      const metadata = await discover();
+      return new OAuth2Strategy(
+        {
+          authorizationURL: metadata.authorization_endpoint,
+          tokenURL: metadata.token_endpoint,
+          clientID: config.clientId,
+          clientSecret: config.clientSecret || "",
+          callbackURL: callbackUrl(config.name),
+          skipUserProfile: true,
+        },
+        (
+          accessToken: string,
+          refreshToken: string,
+          params: any,
+          profile: any,
+          done: OAuth2Strategy.VerifyCallback,
+        ) => {
+          verifyClaims(params.id_token)
+            .then((claims) => verify(claims, done))
+            .catch((error) => done(error));
+        },
+      );
+    },
+    verifyIdToken: async (idToken) => mapProfile(await verifyClaims(idToken)),
+    mapProfile,
+  };
+};
+
+/**
+ * Providers enabled by the current configuration
+ */
+const configuredProviders = (): OAuthProvider[] => {
+  const providers: OAuthProvider[] = [];
+
+  if (env.google.clientId) {
+    providers.push(google());
+  }
+  if (env.apple.clientId) {
+    providers.push(apple());
+  }
+  if (env.oauth.github.clientId && env.oauth.github.clientSecret) {
+    providers.push(github());
+  }
+  if (env.oauth.microsoft.clientId) {
+    providers.push(
+      oidc({
+        name: "microsoft",
+        issuer: `https://login.microsoftonline.com/${env.oauth.microsoft.tenant}/v2.0`,
+        clientId: env.oauth.microsoft.clientId,
+        clientSecret: env.oauth.microsoft.clientSecret,
+        scope: "openid email profile",
+      }),
+    );
+  }
+  for (const config of env.oauth.oidc) {
+    providers.push(oidc(config));
+  }
+
+  return providers;
+};
+
+export default {
+  configuredProviders,
+};
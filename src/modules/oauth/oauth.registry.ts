@@ -0,0 +1,94 @@
+import passport from "passport";
+import httpStatus from "http-status";
+import ApiError from "../../utils/ApiError";
+import logger from "../../utils/logger";
+import authService from "../auth/auth.service";
+import oauthProviders from "./oauth.providers";
+import { OAuthProvider, OAuthStrategyVerify } from "./oauth.interface";
+
+const providers = new Map<string, OAuthProvider>(
+  oauthProviders
+    .configuredProviders()
+    .map((provider) => [provider.name, provider]),
+);
+const registeredStrategies = new Map<string, Promise<void>>();
+
+const getProvider = (name: string) => {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, `Unknown provider: ${name}`);
+  }
+  return provider;
+};
+
+const listProviders = () => {
+  return [...providers.values()].map((provider) => ({
+    name: provider.name,
+    redirect: !!provider.createStrategy,
+    idToken: !!provider.verifyIdToken,
+  }));
+};
+
+const strategyVerify =
+  (provider: OAuthProvider): OAuthStrategyVerify =>
+  (raw, done) => {
+    Promise.resolve()
+      .then(() => authService.loginWithOAuth(provider.mapProfile(raw)))
+      .then((user) => done(null, user))
+      .catch((error) => {
+        logger.error("OAuth verification error", {
+          provider: provider.name,
+          error: error.message,
+        });
+        done(error, false);
+      });
+  };
+
+/**
+ * Register the provider's passport strategy under its name the first
+ * time it is used (OIDC providers need discovery before they can be built)
+ */
+const ensureStrategy = async (name: string) => {
+  const provider = getProvider(name);
+  if (!provider.createStrategy) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      `Provider ${name} does not support redirect sign-in`,
+    );
+  }
+
+  let registration = registeredStrategies.get(name);
+  if (!registration) {
+    registration = provider
+      .createStrategy(strategyVerify(provider))
+      .then((strategy) => {
+        passport.use(name, strategy);
+        logger.info("OAuth strategy registered", { provider: name });
+      })
+      .catch((error) => {
+        registeredStrategies.delete(name);
+        throw error;
+      });
+    registeredStrategies.set(name, registration);
+  }
+  await registration;
+  return provider;
+};
+
+const verifyIdToken = async (name: string, idToken: string) => {
+  const provider = getProvider(name);
+  if (!provider.verifyIdToken) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      `Provider ${name} does not support ID token sign-in`,
+    );
+  }
+  return await provider.verifyIdToken(idToken);
+};
+
+export default {
+  getProvider,
+  listProviders,
+  ensureStrategy,
+  verifyIdToken,
+};
@@ -0,0 +1,168 @@
+import catchAsync from "../../utils/catchAsync";
+import type { NextFunction, Request, Response } from "express";
+import httpStatus from "http-status";
+import ApiError from "../../utils/ApiError";
+import response from "../../utils/response";
+import oauthServerService from "./oauthServer.service";
+import { AuthorizationRequest, TokenRequest } from "./oauthServer.interface";
+
+const toAuthorizationRequest = (
+  params: Record<string, any>,
+): AuthorizationRequest => ({
+  clientId: params.client_id,
+  redirectUri: params.redirect_uri,
+  scope: params.scope,
+  state: params.state,
+  codeChallenge: params.code_challenge,
+  codeChallengeMethod: params.code_challenge_method,
+});
+
+/**
+ * Token endpoint parameters, with client credentials taken from HTTP
+ * Basic auth when present (RFC 6749 section 2.3.1)
+ */
+const toTokenRequest = (req: Request): TokenRequest & { token?: string } => {
+  const body = req.body || {};
+  let clientId = body.client_id;
+  let clientSecret = body.client_secret;
+
+  const [scheme, encoded] = (req.headers.authorization || "").split(" ");
+  if (scheme?.toLowerCase() === "basic" && encoded) {
+    const decoded = Buffer.from(encoded, "base64").toString();
+    const separator = decoded.indexOf(":");
+    if (separator > 0) {
+      try {
+        clientId = decodeURIComponent(decoded.slice(0, separator));
+        clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+      } catch {
+        // Malformed percent-encoding in the Basic credentials
+        throw oauthServerService.oauthError(
+          httpStatus.UNAUTHORIZED,
+          "invalid_client",
+          "Client authentication failed",
+        );
+      }
+    }
+  }
+
+  return {
+    grantType: body.grant_type,
+    clientId,
+    clientSecret,
+    code: body.code,
+    redirectUri: body.redirect_uri,
+    codeVerifier: body.code_verifier,
+    refreshToken: body.refresh_token,
+    scope: body.scope,
+    token: body.token,
+  };
+};
+
+/**
+ * Answers token endpoint failures in the RFC 6749 error format rather
+ * than the API's usual envelope
+ */
+const oauthErrorResponse = (
+  err: any,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (!(err instanceof ApiError) || !err.errors?.length) return next(err);
+  if (err.status === httpStatus.UNAUTHORIZED) {
+    res.set("WWW-Authenticate", 'Basic realm="oauth2"');
+  }
+  res.set("Cache-Control", "no-store");
+  res.status(err.status as number).json({
+    error: err.errors[0].rule,
+    error_description: err.errors[0].message,
+  });
+};
+
+const createClient = catchAsync(async (req: Request, res: Response) => {
+  const client = await oauthServerService.createClient(req.body);
+  res.status(httpStatus.CREATED).json(
+    response({
+      status: httpStatus.CREATED,
+      message: req.str("auth.oauth_client_created"),
+      data: client,
+    }),
+  );
+});
+
+const listClients = catchAsync(async (req: Request, res: Response) => {
+  const clients = await oauthServerService.listClients();
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.oauth_clients_retrieved"),
+      data: clients,
+    }),
+  );
+});
+
+const revokeClient = catchAsync(async (req: Request, res: Response) => {
+  await oauthServerService.revokeClient(req.params.clientId as string);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.oauth_client_revoked"),
+    }),
+  );
+});
+
+const getAuthorization = catchAsync(async (req: Request, res: Response) => {
+  const authorization = await oauthServerService.getAuthorization(
+    req.user?.id!,
+    toAuthorizationRequest(req.query),
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.oauth_consent_retrieved"),
+      data: authorization,
+    }),
+  );
+});
+
+const decideAuthorization = catchAsync(async (req: Request, res: Response) => {
+  const result = await oauthServerService.decideAuthorization(
+    req.user?.id!,
+    toAuthorizationRequest(req.body),
+    req.body.approve,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str(
+        req.body.approve
+          ? "auth.oauth_consent_granted"
+          : "auth.oauth_consent_denied",
+      ),
+      data: result,
+    }),
+  );
+});
+
+const token = catchAsync(async (req: Request, res: Response) => {
+  const tokens = await oauthServerService.token(toTokenRequest(req));
+  res.set("Cache-Control", "no-store");
+  res.set("Pragma", "no-cache");
+  res.status(httpStatus.OK).json(tokens);
+});
+
+const revokeToken = catchAsync(async (req: Request, res: Response) => {
+  await oauthServerService.revokeToken(toTokenRequest(req));
+  res.status(httpStatus.OK).end();
+});
+
+export default {
+  oauthErrorResponse,
+  createClient,
+  listClients,
+  revokeClient,
+  getAuthorization,
+  decideAuthorization,
+  token,
+  revokeToken,
+};
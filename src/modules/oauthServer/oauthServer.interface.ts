@@ -0,0 +1,33 @@
+export type OAuthGrantType =
+  "authorization_code" | "refresh_token" | "client_credentials";
+
+export interface OAuthClientInput {
+  name: string;
+  redirectUris: string[];
+  scopes: string[];
+  grantTypes: OAuthGrantType[];
+  // Confidential clients get a secret; public ones (SPAs, mobile) rely on PKCE
+  confidential: boolean;
+  // The account client_credentials tokens act as
+  serviceUserId?: string;
+}
+
+export interface AuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  scope?: string;
+  state?: string;
+  codeChallenge: string;
+  codeChallengeMethod: "S256";
+}
+
+export interface TokenRequest {
+  grantType?: string;
+  clientId?: string;
+  clientSecret?: string;
+  code?: string;
+  redirectUri?: string;
+  codeVerifier?: string;
+  refreshToken?: string;
+  scope?: string;
+}
@@ -0,0 +1,58 @@
+import express, { Router } from "express";
+import auth from "../../middlewares/auth";
+import denyImpersonation from "../../middlewares/denyImpersonation";
+import requireUserSession from "../../middlewares/requireUserSession";
+import validate from "../../middlewares/validate";
+import oauthServerController from "./oauthServer.controller";
+import oauthServerValidation from "./oauthServer.validation";
+
+const router: Router = express.Router();
+
+router
+  .route("/clients")
+  .get(auth("admin"), oauthServerController.listClients)
+  .post(
+    auth("admin"),
+    validate(oauthServerValidation.createClient),
+    oauthServerController.createClient,
+  );
+
+router.delete(
+  "/clients/:clientId",
+  auth("admin"),
+  validate(oauthServerValidation.revokeClient),
+  oauthServerController.revokeClient,
+);
+
+// Consent screen: the frontend renders the GET result and posts the decision.
+// Only a signed-in user may consent, never a token delegated to an app
+router
+  .route("/authorize")
+  .get(
+    auth("common"),
+    requireUserSession,
+    validate(oauthServerValidation.getAuthorization),
+    oauthServerController.getAuthorization,
+  )
+  .post(
+    auth("common"),
+    requireUserSession,
+    denyImpersonation,
+    validate(oauthServerValidation.decideAuthorization),
+    oauthServerController.decideAuthorization,
+  );
+
+// No validate() here: RFC 6749 requires unknown parameters to be ignored,
+// which the strict body schemas would reject
+router.post(
+  "/token",
+  oauthServerController.token,
+  oauthServerController.oauthErrorResponse,
+);
+router.post(
+  "/revoke",
+  oauthServerController.revokeToken,
+  oauthServerController.oauthErrorResponse,
+);
+
+export default router;
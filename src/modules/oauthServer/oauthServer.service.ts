@@ -0,0 +1,667 @@
+import crypto from "crypto";
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import ApiError from "../../utils/ApiError";
+import jwt from "../../utils/jwt";
+import logger from "../../utils/logger";
+import { strToDate } from "../../utils/date";
+import { tokenType } from "../../../generated/prisma/enums";
+import roleService from "../role/role.service";
+import {
+  AuthorizationRequest,
+  OAuthClientInput,
+  TokenRequest,
+} from "./oauthServer.interface";
+
+const hashValue = (value: string) => {
+  return crypto.createHash("sha256").update(value).digest("hex");
+};
+
+const randomToken = () => crypto.randomBytes(32).toString("base64url");
+
+/**
+ * RFC 6749 error codes travel as the error detail rule, so the token
+ * endpoint can answer in the OAuth2 error format
+ */
+const oauthError = (
+  status: keyof typeof httpStatus,
+  code: string,
+  description: string,
+) => {
+  return new ApiError(status, description, true, "", [
+    { rule: code, message: description },
+  ]);
+};
+
+const parseScope = (scope?: string) => [
+  ...new Set((scope || "").split(" ").filter(Boolean)),
+];
+
+const clientSelect = {
+  id: true,
+  clientId: true,
+  name: true,
+  redirectUris: true,
+  scopes: true,
+  grantTypes: true,
+  serviceUserId: true,
+  createdAt: true,
+  revokedAt: true,
+};
+
+const createClient = async (input: OAuthClientInput) => {
+  const { grantTypes, scopes } = input;
+  if (grantTypes.includes("client_credentials")) {
+    if (!input.confidential || !input.serviceUserId) {
+      throw new ApiError(
+        httpStatus.BAD_REQUEST,
+        "client_credentials needs a confidential client and a service user",
+      );
+    }
+    const serviceUser = await prisma.user.findFirst({
+      where: { id: input.serviceUserId, isDeleted: false },
+      select: { role: true },
+    });
+    if (!serviceUser) {
+      throw new ApiError(httpStatus.NOT_FOUND, "Service user not found");
+    }
+    const rights = await roleService.getRolePermissions(serviceUser.role);
+    const invalid = scopes.filter((scope) => !rights.includes(scope));
+    if (invalid.length > 0) {
+      throw new ApiError(
+        httpStatus.BAD_REQUEST,
+        `Scopes not allowed for the service user: ${invalid.join(", ")}`,
+      );
+    }
+  }
+  if (
+    grantTypes.includes("authorization_code") &&
+    input.redirectUris.length === 0
+  ) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "authorization_code needs at least one redirect URI",
+    );
+  }
+
+  const clientId = crypto.randomBytes(16).toString("hex");
+  const clientSecret = input.confidential ? randomToken() : undefined;
+
+  const client = await prisma.oAuthClient.create({
+    data: {
+      clientId,
+      secretHash: clientSecret ? hashValue(clientSecret) : null,
+      name: input.name,
+      redirectUris: input.redirectUris,
+      scopes: [...new Set(scopes)],
+      grantTypes: [...new Set(grantTypes)],
+      serviceUserId: input.serviceUserId,
+    },
+    select: clientSelect,
+  });
+
+  logger.info("OAuth client registered", { clientId, name: input.name });
+  // The secret is only ever shown here
+  return { ...client, clientSecret };
+};
+
+const listClients = async () => {
+  return await prisma.oAuthClient.findMany({
+    select: clientSelect,
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+const revokeClient = async (clientId: string) => {
+  const result = await prisma.oAuthClient.updateMany({
+    where: { clientId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (result.count === 0) {
+    throw new ApiError(httpStatus.NOT_FOUND, "OAuth client not found");
+  }
+  await prisma.token.updateMany({
+    where: {
+      type: tokenType.oauth_refresh,
+      isRevoked: false,
+      metadata: { path: ["clientId"], equals: clientId },
+    },
+    data: {
+      isRevoked: true,
+      revokedAt: new Date(),
+      revokedReason: "OAuth client revoked",
+    },
+  });
+  logger.warn("OAuth client revoked", { clientId });
+  return true;
+};
+
+const isClientActive = async (clientId: string) => {
+  const client = await prisma.oAuthClient.findFirst({
+    where: { clientId, revokedAt: null },
+    select: { id: true },
+  });
+  return !!client;
+};
+
+const getActiveClient = async (clientId: string) => {
+  const client = await prisma.oAuthClient.findUnique({ where: { clientId } });
+  if (!client || client.revokedAt) {
+    throw oauthError(
+      httpStatus.UNAUTHORIZED,
+      "invalid_client",
+      "Unknown client",
+    );
+  }
+  return client;
+};
+
+const authenticateClient = async (clientId?: string, clientSecret?: string) => {
+  if (!clientId) {
+    throw oauthError(
+      httpStatus.UNAUTHORIZED,
+      "invalid_client",
+      "Client authentication failed",
+    );
+  }
+  const client = await getActiveClient(clientId);
+  if (client.secretHash) {
+    const presented = Buffer.from(hashValue(clientSecret || ""));
+    const expected = Buffer.from(client.secretHash);
+    if (!clientSecret || !crypto.timingSafeEqual(presented, expected)) {
+      throw oauthError(
+        httpStatus.UNAUTHORIZED,
+        "invalid_client",
+        "Client authentication failed",
+      );
+    }
+  }
+  return client;
+};
+
+/**
+ * Check an authorization request and work out the scopes it asks for
+ * (all of the client's scopes when none are named)
+ */
+const resolveAuthorization = async (
+  userId: string,
+  request: AuthorizationRequest,
+) => {
+  const client = await getActiveClient(request.clientId);
+  if (!client.grantTypes.includes("authorization_code")) {
+    throw oauthError(
+      httpStatus.BAD_REQUEST,
+      "unauthorized_client",
+      "Client may not use the authorization code grant",
+    );
+  }
+  if (!client.redirectUris.includes(request.redirectUri)) {
+    throw oauthError(
+      httpStatus.BAD_REQUEST,
+      "invalid_request",
+      "redirect_uri is not registered for this client",
+    );
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isDeleted: false },
+    select: { role: true },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+
+  const requested = parseScope(request.scope);
+  const scopes = requested.length > 0 ? requested : client.scopes;
+  const rights = await roleService.getRolePermissions(user.role);
+  const invalid = scopes.filter(
+    (scope) => !client.scopes.includes(scope) || !rights.includes(scope),
+  );
+  if (invalid.length > 0) {
+    throw oauthError(
+      httpStatus.BAD_REQUEST,
+      "invalid_scope",
+      `Scopes not allowed: ${invalid.join(", ")}`,
+    );
+  }
+  return { client, scopes };
+};
+
+/**
+ * Everything the consent screen needs to render
+ */
+const getAuthorization = async (
+  userId: string,
+  request: AuthorizationRequest,
+) => {
+  const { client, scopes } = await resolveAuthorization(userId, request);
+  const consent = await prisma.oAuthConsent.findUnique({
+    where: { userId_clientId: { userId, clientId: client.clientId } },
+  });
+  return {
+    client: { clientId: client.clientId, name: client.name },
+    scopes,
+    consentRequired:
+      !consent || scopes.some((scope) => !consent.scopes.includes(scope)),
+  };
+};
+
+const redirectWith = (
+  redirectUri: string,
+  params: Record<string, string | undefined>,
+) => {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) url.searchParams.set(key, value);
+  }
+  return url.toString();
+};
+
+/**
+ * Record the user's answer on the consent screen and build the
+ * redirect back to the client
+ */
+const decideAuthorization = async (
+  userId: string,
+  request: AuthorizationRequest,
+  approve: boolean,
+) => {
+  const { client, scopes } = await resolveAuthorization(userId, request);
+  if (!approve) {
+    logger.info("OAuth consent denied", { userId, clientId: client.clientId });
+    return {
+      redirectUri: redirectWith(request.redirectUri, {
+        error: "access_denied",
+        state: request.state,
+      }),
+    };
+  }
+
+  await prisma.oAuthConsent.upsert({
+    where: { userId_clientId: { userId, clientId: client.clientId } },
+    create: { userId, clientId: client.clientId, scopes },
+    update: { scopes },
+  });
+
+  const code = randomToken();
+  await prisma.token.create({
+    data: {
+      userId,
+      token: hashValue(code),
+      type: tokenType.oauth_code,
+      expiresAt: strToDate(env.oauthServer.codeExpiry),
+      metadata: {
+        clientId: client.clientId,
+        redirectUri: request.redirectUri,
+        scopes,
+        codeChallenge: request.codeChallenge,
+        codeChallengeMethod: request.codeChallengeMethod,
+      },
+    },
+  });
+
+  logger.info("OAuth authorization granted", {
+    userId,
+    clientId: client.clientId,
+    scopes,
+  });
+  return {
+    redirectUri: redirectWith(request.redirectUri, {
+      code,
+      state: request.state,
+    }),
+  };
+};
+
+const revokeFamily = async (tokenFamily: string, reason: string) => {
+  await prisma.token.updateMany({
+    where: { tokenFamily, isRevoked: false },
+    data: { isRevoked: true, revokedAt: new Date(), revokedReason: reason },
+  });
+};
+
+const secondsUntil = (expiry: string) =>
+  Math.round((strToDate(expiry).getTime() - Date.now()) / 1000);
+
+/**
+ * Scoped access JWT plus, when the grant allows it, an opaque refresh
+ * token stored hashed in the Token table
+ */
+const issueTokens = async (opts: {
+  userId: string;
+  clientId: string;
+  scopes: string[];
+  tokenFamily?: string;
+  replacesTokenId?: string;
+}) => {
+  const user = await prisma.user.findFirst({
+    where: { id: opts.userId, isDeleted: false, isRestricted: false },
+    select: { tokenVersion: true },
+  });
+  if (!user) {
+    throw oauthError(
+      httpStatus.BAD_REQUEST,
+      "invalid_grant",
+      "The account is no longer available",
+    );
+  }
+
+  const accessToken = await jwt.generateToken(
+    {
+      sub: opts.userId,
+      type: tokenType.oauth_access,
+      tv: user.tokenVersion,
+      sid: opts.tokenFamily,
+      scope: opts.scopes.join(" "),
+      client_id: opts.clientId,
+    },
+    env.oauthServer.accessExpiry,
+  );
+
+  let refreshToken: string | undefined;
+  if (opts.tokenFamily) {
+    refreshToken = randomToken();
+    await prisma.token.create({
+      data: {
+        userId: opts.userId,
+        token: hashValue(refreshToken),
+        type: tokenType.oauth_refresh,
+        tokenFamily: opts.tokenFamily,
+        replacesTokenId: opts.replacesTokenId,
+        expiresAt: strToDate(env.oauthServer.refreshExpiry),
+        metadata: { clientId: opts.clientId, scopes: opts.scopes },
+      },
+    });
+  }
+
+  return {
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: secondsUntil(env.oauthServer.accessExpiry),
+    scope: opts.scopes.join(" "),
+    ...(refreshToken && { refresh_token: refreshToken }),
+  };
+};
+
+const verifyPkce = (
+  verifier: string | undefined,
+  challenge: string,
+  method: string,
+) => {
+  if (!verifier || method !== "S256") return false;
+  const computed = crypto
+    .createHash("sha256")
+    .update(verifier)
+    .digest("base64url");
+  return computed === challenge;
+};
+
+const exchangeAuthorizationCode = async (
+  client: { clientId: string; grantTypes: string[] },
+  request: TokenRequest,
+) => {
+  if (!request.code || !request.redirectUri) {
+    throw oauthError(
+      httpStatus.BAD_REQUEST,
+      "invalid_request",
+      "code and redirect_uri are required",
+    );
+  }
+  const invalidGrant = () =>
+    oauthError(
+      httpStatus.BAD_REQUEST,
+      "invalid_grant",
+      "Invalid authorization code",
+    );
+
+  const codeDoc = await prisma.token.findUnique({
+    where: { token: hashValue(request.code) },
+  });
+  if (!codeDoc || codeDoc.type !== tokenType.oauth_code) {
+    throw invalidGrant();
+  }
+
+  // Codes are single use; replaying one revokes what it produced
+  const consumed = await prisma.token.updateMany({
+    where: { id: codeDoc.id, isRevoked: false },
+    data: {
+      isRevoked: true,
+      revokedAt: new Date(),
+      revokedReason: "Authorization code exchanged",
+    },
+  });
+  if (consumed.count === 0) {
+    if (codeDoc.tokenFamily) {
+      await revokeFamily(codeDoc.tokenFamily, "Authorization code replayed");
+    }
+    logger.error("OAuth authorization code replayed", {
+      clientId: client.clientId,
+      userId: codeDoc.userId,
+    });
+    throw invalidGrant();
+  }
+
+  const metadata = (codeDoc.metadata || {}) as {
+    clientId?: string;
+    redirectUri?: string;
+    scopes?: string[];
+    codeChallenge?: string;
+    codeChallengeMethod?: string;
+  };
+  if (
+    codeDoc.expiresAt < new Date() ||
+    metadata.clientId !== client.clientId ||
+    metadata.redirectUri !== request.redirectUri ||
+    !verifyPkce(
+      request.codeVerifier,
+      metadata.codeChallenge || "",
+      metadata.codeChallengeMethod || "",
+    )
+  ) {
+    throw invalidGrant();
+  }
+
+  const tokenFamily = client.grantTypes.includes("refresh_token")
+    ? crypto.randomBytes(16).toString("hex")
+    : undefined;
+  if (tokenFamily) {
+    await prisma.token.update({
+      where: { id: codeDoc.id },
+      data: { tokenFamily },
+    });
+  }
+
+  return await issueTokens({
+    userId: codeDoc.userId,
+    clientId: client.clientId,
+    scopes: metadata.scopes || [],
+    tokenFamily,
+  });
+};
+
+const refreshGrant = async (
+  client: { clientId: string; grantTypes: string[] },
+  request: TokenRequest,
+) => {
+  if (!client.grantTypes.includes("refresh_token")) {
+    throw oauthError(
+      httpStatus.BAD_REQUEST,
+      "unauthorized_client",
+      "Client may not use refresh tokens",
+    );
+  }
+  const invalidGrant = () =>
+    oauthError(
+      httpStatus.BAD_REQUEST,
+      "invalid_grant",
+      "Invalid refresh token",
+    );
+
+  const tokenDoc = request.refreshToken
+    ? await prisma.token.findUnique({
+        where: { token: hashValue(request.refreshToken) },
+      })
+    : null;
+  const metadata = (tokenDoc?.metadata || {}) as {
+    clientId?: string;
+    scopes?: string[];
+  };
+  if (
+    !tokenDoc ||
+    tokenDoc.type !== tokenType.oauth_refresh ||
+    metadata.clientId !== client.clientId
+  ) {
+    throw invalidGrant();
+  }
+
+  if (tokenDoc.isRevoked) {
+    // A rotated token came back: someone else has a copy
+    if (tokenDoc.tokenFamily) {
+      await revokeFamily(tokenDoc.tokenFamily, "OAuth refresh token reuse");
+    }
+    logger.error("OAuth refresh token reuse detected", {
+      clientId: client.clientId,
+      userId: tokenDoc.userId,
+    });
+    throw invalidGrant();
+  }
+  if (tokenDoc.expiresAt < new Date()) {
+    throw invalidGrant();
+  }
+
+  // Clients may narrow, never widen, the original grant
+  const granted = metadata.scopes || [];
+  const requested = parseScope(request.scope);
+  if (requested.some((scope) => !granted.includes(scope))) {
+    throw oauthError(
+      httpStatus.BAD_REQUEST,
+      "invalid_scope",
+      "Requested scope exceeds the original grant",
+    );
+  }
+
+  const tokens = await issueTokens({
+    userId: tokenDoc.userId,
+    clientId: client.clientId,
+    scopes: requested.length > 0 ? requested : granted,
+    tokenFamily: tokenDoc.tokenFamily!,
+    replacesTokenId: tokenDoc.id,
+  });
+  await prisma.token.update({
+    where: { id: tokenDoc.id },
+    data: {
+      isRevoked: true,
+      revokedAt: new Date(),
+      revokedReason: "Token rotated",
+      lastUsedAt: new Date(),
+      useCount: { increment: 1 },
+    },
+  });
+  return tokens;
+};
+
+const clientCredentialsGrant = async (
+  client: {
+    clientId: string;
+    grantTypes: string[];
+    scopes: string[];
+    serviceUserId: string | null;
+  },
+  request: TokenRequest,
+) => {
+  if (
+    !client.grantTypes.includes("client_credentials") ||
+    !client.serviceUserId
+  ) {
+    throw oauthError(
+      httpStatus.BAD_REQUEST,
+      "unauthorized_client",
+      "Client may not use the client credentials grant",
+    );
+  }
+  const requested = parseScope(request.scope);
+  if (requested.some((scope) => !client.scopes.includes(scope))) {
+    throw oauthError(
+      httpStatus.BAD_REQUEST,
+      "invalid_scope",
+      "Requested scope is not allowed for this client",
+    );
+  }
+
+  // No refresh token: the client can always authenticate again
+  return await issueTokens({
+    userId: client.serviceUserId,
+    clientId: client.clientId,
+    scopes: requested.length > 0 ? requested : client.scopes,
+  });
+};
+
+const token = async (request: TokenRequest) => {
+  const client = await authenticateClient(
+    request.clientId,
+    request.clientSecret,
+  );
+  if (!client.secretHash && request.grantType === "client_credentials") {
+    throw oauthError(
+      httpStatus.UNAUTHORIZED,
+      "invalid_client",
+      "Public clients cannot use the client credentials grant",
+    );
+  }
+
+  switch (request.grantType) {
+    case "authorization_code":
+      return await exchangeAuthorizationCode(client, request);
+    case "refresh_token":
+      return await refreshGrant(client, request);
+    case "client_credentials":
+      return await clientCredentialsGrant(client, request);
+    default:
+      throw oauthError(
+        httpStatus.BAD_REQUEST,
+        "unsupported_grant_type",
+        "Unsupported grant_type",
+      );
+  }
+};
+
+/**
+ * RFC 7009: unknown tokens are not an error
+ */
+const revokeToken = async (request: TokenRequest & { token?: string }) => {
+  const client = await authenticateClient(
+    request.clientId,
+    request.clientSecret,
+  );
+  if (!request.token) return true;
+
+  const tokenDoc = await prisma.token.findUnique({
+    where: { token: hashValue(request.token) },
+  });
+  const metadata = (tokenDoc?.metadata || {}) as { clientId?: string };
+  if (
+    tokenDoc?.type === tokenType.oauth_refresh &&
+    tokenDoc.tokenFamily &&
+    metadata.clientId === client.clientId
+  ) {
+    await revokeFamily(tokenDoc.tokenFamily, "Revoked by client");
+    logger.info("OAuth grant revoked by client", {
+      clientId: client.clientId,
+      userId: tokenDoc.userId,
+    });
+  }
+  return true;
+};
+
+export default {
+  oauthError,
+  createClient,
+  listClients,
+  revokeClient,
+  isClientActive,
+  getAuthorization,
+  decideAuthorization,
+  token,
+  revokeToken,
+};
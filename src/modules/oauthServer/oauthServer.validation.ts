@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+const createClient = {
+  body: z.object({
+    name: z.string().trim().min(1).max(100),
+    redirectUris: z.array(z.url()).default([]),
+    scopes: z.array(z.string()).min(1),
+    grantTypes: z
+      .array(
+        z.enum(["authorization_code", "refresh_token", "client_credentials"]),
+      )
+      .min(1),
+    confidential: z.boolean().default(true),
+    serviceUserId: z.string().uuid().optional(),
+  }),
+};
+
+const revokeClient = {
+  params: z.object({
+    clientId: z.string().min(1),
+  }),
+};
+
+// Parameter names follow RFC 6749
+const authorizationParams = {
+  response_type: z.literal("code"),
+  client_id: z.string().min(1),
+  redirect_uri: z.url(),
+  scope: z.string().optional(),
+  state: z.string().max(500).optional(),
+  code_challenge: z.string().min(43).max(128),
+  code_challenge_method: z.literal("S256"),
+};
+
+const getAuthorization = {
+  query: z.object(authorizationParams),
+};
+
+const decideAuthorization = {
+  body: z.object({
+    ...authorizationParams,
+    approve: z.boolean(),
+  }),
+};
+
+export default {
+  createClient,
+  revokeClient,
+  getAuthorization,
+  decideAuthorization,
+};
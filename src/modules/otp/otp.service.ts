@@ -0,0 +1,150 @@
+import crypto from "crypto";
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import ApiError from "../../utils/ApiError";
+import logger from "../../utils/logger";
+import { randomOtp } from "../../utils/otp";
+import { OtpPurpose } from "../../../generated/prisma/enums";
+
+/**
+ * Keyed hash so a database leak does not reveal codes
+ * (a plain hash of 6 digits is trivial to brute-force).
+ */
+const hashCode = (userId: string, purpose: OtpPurpose, code: string) => {
+  return crypto
+    .createHmac("sha256", env.jwt.secret)
+    .update(`${userId}:${purpose}:${code}`)
+    .digest("hex");
+};
+
+const getActiveCode = async (
+  userId: string,
+  purpose?: OtpPurpose | OtpPurpose[],
+) => {
+  return await prisma.oneTimeCode.findFirst({
+    where: {
+      userId,
+      ...(purpose && {
+        purpose: Array.isArray(purpose) ? { in: purpose } : purpose,
+      }),
+      consumedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+/**
+ * Throw if a code for this purpose was sent too recently
+ */
+const assertCanResend = async (userId: string, purpose: OtpPurpose) => {
+  const active = await getActiveCode(userId, purpose);
+  if (!active) return;
+
+  const resendAllowedAt =
+    active.createdAt.getTime() + env.otp.resendCooldownSeconds * 1000;
+  if (Date.now() < resendAllowedAt) {
+    throw new ApiError(
+      httpStatus.TOO_MANY_REQUESTS,
+      "Please wait before requesting a new verification code",
+    );
+  }
+};
+
+/**
+ * Create a new code for the purpose, invalidating any previous ones.
+ * Returns the plain code so the caller can deliver it.
+ */
+const issue = async (userId: string, purpose: OtpPurpose) => {
+  const code = randomOtp();
+
+  await prisma.$transaction([
+    prisma.oneTimeCode.updateMany({
+      where: { userId, purpose, consumedAt: null },
+      data: { consumedAt: new Date() },
+    }),
+    prisma.oneTimeCode.create({
+      data: {
+        userId,
+        purpose,
+        codeHash: hashCode(userId, purpose, code),
+        expiresAt: new Date(Date.now() + env.otp.expiryMinutes * 60 * 1000),
+      },
+    }),
+  ]);
+
+  return code;
+};
+
+/**
+ * Check a code and consume it on success.
+ * Every wrong guess counts towards the attempt limit.
+ */
+const verify = async (userId: string, purpose: OtpPurpose, code: string) => {
+  const record = await prisma.oneTimeCode.findFirst({
+    where: { userId, purpose, consumedAt: null },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (!record) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid code or email");
+  }
+  if (record.expiresAt < new Date()) {
+    throw new ApiError(httpStatus.FORBIDDEN, "OTP has expired");
+  }
+  // Take an attempt before comparing, in one conditional update, so
+  // parallel guesses cannot all pass the limit
+  const attempt = await prisma.oneTimeCode.updateMany({
+    where: {
+      id: record.id,
+      consumedAt: null,
+      attempts: { lt: env.otp.maxAttempts },
+    },
+    data: { attempts: { increment: 1 } },
+  });
+  if (attempt.count === 0) {
+    throw new ApiError(
+      httpStatus.TOO_MANY_REQUESTS,
+      "Too many attempts, please request a new code",
+    );
+  }
+
+  const expected = Buffer.from(record.codeHash, "hex");
+  const actual = Buffer.from(hashCode(userId, purpose, code), "hex");
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    if (record.attempts + 1 >= env.otp.maxAttempts) {
+      logger.warn("One-time code attempt limit reached", { userId, purpose });
+    }
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid code or email");
+  }
+
+  // Conditional update so the same code cannot be consumed twice
+  const consumed = await prisma.oneTimeCode.updateMany({
+    where: { id: record.id, consumedAt: null },
+    data: { consumedAt: new Date() },
+  });
+  if (consumed.count === 0) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid code or email");
+  }
+
+  return true;
+};
+
+const cleanupExpiredCodes = async () => {
+  const result = await prisma.oneTimeCode.deleteMany({
+    where: {
+      OR: [{ expiresAt: { lt: new Date() } }, { consumedAt: { not: null } }],
+    },
+  });
+  logger.info("Expired one-time codes cleaned", { count: result.count });
+  return result.count;
+};
+
+export default {
+  getActiveCode,
+  assertCanResend,
+  issue,
+  verify,
+  cleanupExpiredCodes,
+};
@@ -0,0 +1,159 @@
+import catchAsync from "../../utils/catchAsync";
+import type { Request, Response } from "express";
+import httpStatus from "http-status";
+import response from "../../utils/response";
+import passkeyService from "./passkey.service";
+import tokenService from "../token/token.service";
+import userService from "../user/user.service";
+import trustedDeviceService from "../trustedDevice/trustedDevice.service";
+import logger from "../../utils/logger";
+
+const getRegistrationOptions = catchAsync(
+  async (req: Request, res: Response) => {
+    const options = await passkeyService.getRegistrationOptions(req.user?.id!);
+    res.status(httpStatus.OK).json(
+      response({
+        status: httpStatus.OK,
+        message: req.str("auth.passkey_options"),
+        data: options,
+      }),
+    );
+  },
+);
+
+const verifyRegistration = catchAsync(async (req: Request, res: Response) => {
+  const passkey = await passkeyService.verifyRegistration(
+    req.user?.id!,
+    req.body.response,
+    req.body.name || req.device?.deviceName,
+  );
+  res.status(httpStatus.CREATED).json(
+    response({
+      status: httpStatus.CREATED,
+      message: req.str("auth.passkey_registered"),
+      data: passkey,
+    }),
+  );
+});
+
+const getAuthenticationOptions = catchAsync(
+  async (req: Request, res: Response) => {
+    const options = await passkeyService.getAuthenticationOptions(
+      req.body.email,
+    );
+    res.status(httpStatus.OK).json(
+      response({
+        status: httpStatus.OK,
+        message: req.str("auth.passkey_options"),
+        data: options,
+      }),
+    );
+  },
+);
+
+const verifyAuthentication = catchAsync(async (req: Request, res: Response) => {
+  const { fcmToken, rememberMe = false, trustDevice = false } = req.body;
+  const user = await passkeyService.verifyAuthentication(req.body.response);
+
+  const token = await tokenService.generateLoginTokens({
+    userId: user.id,
+    deviceId: req.device?.deviceId,
+    deviceName: req.device?.deviceName,
+    userAgent: req.device?.userAgent,
+    ipAddress: req.device?.ip,
+    rememberMe: rememberMe,
+    metadata: {
+      fingerprint: req.device?.fingerprint,
+      deviceType: req.device?.deviceType,
+      browser: req.device?.browser,
+      os: req.device?.os,
+      timezone: req.device?.timezone,
+      isBot: req.device?.isBot,
+      geo: req.device?.geo,
+    },
+  });
+
+  if (fcmToken) {
+    await userService.updateUser(user.id, { fcmToken }, {});
+  }
+
+  // The secret goes to browsers as a cookie and to other clients in the
+  // response; either one is needed to skip the second factor later
+  let trustedDevice;
+  if (trustDevice) {
+    const { trusted, secret } = await trustedDeviceService.trustDevice(
+      user.id,
+      req.device,
+      trustedDeviceService.getDeviceSecret(req),
+    );
+    trustedDeviceService.setTrustedDeviceCookie(res, secret, trusted.expiresAt);
+    trustedDevice = { token: secret, expiresAt: trusted.expiresAt };
+  }
+
+  logger.info("User logged in with passkey", {
+    userId: user.id,
+    email: user.email,
+    deviceName: req.device?.deviceName,
+    ip: req.device?.ip,
+  });
+
+  tokenService.setAuthCookies(res, token);
+
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.login_success"),
+      data: user,
+      token: { ...token, ...(trustedDevice && { trustedDevice }) },
+    }),
+  );
+});
+
+const listPasskeys = catchAsync(async (req: Request, res: Response) => {
+  const passkeys = await passkeyService.listPasskeys(req.user?.id!);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.passkeys_retrieved"),
+      data: passkeys,
+    }),
+  );
+});
+
+const renamePasskey = catchAsync(async (req: Request, res: Response) => {
+  const passkey = await passkeyService.renamePasskey(
+    req.user?.id!,
+    req.params.passkeyId as string,
+    req.body.name,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.passkey_renamed"),
+      data: passkey,
+    }),
+  );
+});
+
+const deletePasskey = catchAsync(async (req: Request, res: Response) => {
+  await passkeyService.deletePasskey(
+    req.user?.id!,
+    req.params.passkeyId as string,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.passkey_deleted"),
+    }),
+  );
+});
+
+export default {
+  getRegistrationOptions,
+  verifyRegistration,
+  getAuthenticationOptions,
+  verifyAuthentication,
+  listPasskeys,
+  renamePasskey,
+  deletePasskey,
+};
@@ -0,0 +1,70 @@
+import express, { Router } from "express";
+import auth from "../../middlewares/auth";
+import denyImpersonation from "../../middlewares/denyImpersonation";
+import requireRecentAuth from "../../middlewares/requireRecentAuth";
+import requireUserSession from "../../middlewares/requireUserSession";
+import validate from "../../middlewares/validate";
+import passkeyController from "./passkey.controller";
+import passkeyValidation from "./passkey.validation";
+
+const router: Router = express.Router();
+
+router.post(
+  "/register/options",
+  auth("common"),
+  denyImpersonation,
+  requireUserSession,
+  requireRecentAuth(),
+  passkeyController.getRegistrationOptions,
+);
+
+router.post(
+  "/register/verify",
+  auth("common"),
+  denyImpersonation,
+  requireUserSession,
+  requireRecentAuth(),
+  validate(passkeyValidation.verifyRegistration),
+  passkeyController.verifyRegistration,
+);
+
+router.post(
+  "/login/options",
+  validate(passkeyValidation.getAuthenticationOptions),
+  passkeyController.getAuthenticationOptions,
+);
+
+router.post(
+  "/login/verify",
+  validate(passkeyValidation.verifyAuthentication),
+  passkeyController.verifyAuthentication,
+);
+
+router.get(
+  "/",
+  auth("common"),
+  denyImpersonation,
+  requireUserSession,
+  passkeyController.listPasskeys,
+);
+
+router
+  .route("/:passkeyId")
+  .patch(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    requireRecentAuth(),
+    validate(passkeyValidation.renamePasskey),
+    passkeyController.renamePasskey,
+  )
+  .delete(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    requireRecentAuth(),
+    validate(passkeyValidation.deletePasskey),
+    passkeyController.deletePasskey,
+  );
+
+export default router;
@@ -0,0 +1,320 @@
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "@simplewebauthn/server";
+import type {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import ApiError from "../../utils/ApiError";
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import logger from "../../utils/logger";
+import userSelect from "../user/user.select";
+import { WebAuthnChallengeType } from "../../../generated/prisma/enums";
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+const passkeySelect = {
+  id: true,
+  name: true,
+  deviceType: true,
+  backedUp: true,
+  transports: true,
+  createdAt: true,
+  lastUsedAt: true,
+};
+
+const cleanupExpiredChallenges = async () => {
+  const result = await prisma.webAuthnChallenge.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+  return result.count;
+};
+
+const saveChallenge = async (
+  challenge: string,
+  type: WebAuthnChallengeType,
+  userId?: string,
+) => {
+  await prisma.webAuthnChallenge.create({
+    data: {
+      challenge,
+      type,
+      userId,
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+    },
+  });
+
+  // Abandoned ceremonies leave their challenge behind
+  setImmediate(() => {
+    cleanupExpiredChallenges().catch((error) =>
+      logger.error("Passkey challenge cleanup failed", {
+        error: error.message,
+      }),
+    );
+  });
+};
+
+/**
+ * Single-use lookup used as `expectedChallenge` by the verifiers.
+ * The row is deleted whether or not it is still valid; only the request
+ * whose delete removed it may use it, so concurrent verifications of one
+ * challenge cannot both pass.
+ */
+const consumeChallenge = async (
+  challenge: string,
+  type: WebAuthnChallengeType,
+  userId?: string,
+) => {
+  const result = await prisma.webAuthnChallenge.deleteMany({
+    where: {
+      challenge,
+      type,
+      expiresAt: { gt: new Date() },
+      ...(userId && { userId }),
+    },
+  });
+  if (result.count === 1) return true;
+
+  await prisma.webAuthnChallenge.deleteMany({ where: { challenge } });
+  return false;
+};
+
+const getRegistrationOptions = async (userId: string) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isDeleted: false },
+    include: { passkeys: true },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+
+  const options = await generateRegistrationOptions({
+    rpName: env.webauthn.rpName,
+    rpID: env.webauthn.rpId,
+    userName: user.email,
+    userID: new TextEncoder().encode(user.id),
+    userDisplayName:
+      [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email,
+    attestationType: "none",
+    excludeCredentials: user.passkeys.map((passkey) => ({
+      id: passkey.credentialId,
+      transports: passkey.transports as AuthenticatorTransportFuture[],
+    })),
+    authenticatorSelection: {
+      residentKey: "preferred",
+      userVerification: "preferred",
+    },
+  });
+
+  await saveChallenge(
+    options.challenge,
+    WebAuthnChallengeType.registration,
+    userId,
+  );
+  return options;
+};
+
+const verifyRegistration = async (
+  userId: string,
+  response: RegistrationResponseJSON,
+  name?: string,
+) => {
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: (challenge) =>
+        consumeChallenge(challenge, WebAuthnChallengeType.registration, userId),
+      expectedOrigin: env.webauthn.origins,
+      expectedRPID: env.webauthn.rpId,
+    });
+  } catch (error: any) {
+    logger.warn("Passkey registration failed", {
+      userId,
+      error: error.message,
+    });
+    throw new ApiError(httpStatus.BAD_REQUEST, "Passkey registration failed");
+  }
+
+  if (!verification.verified) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Passkey registration failed");
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } =
+    verification.registrationInfo;
+
+  const passkey = await prisma.passkey.create({
+    data: {
+      userId,
+      credentialId: credential.id,
+      publicKey: credential.publicKey,
+      counter: credential.counter,
+      transports: credential.transports || [],
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      name,
+    },
+    select: passkeySelect,
+  });
+
+  logger.info("Passkey registered", { userId, passkeyId: passkey.id });
+  return passkey;
+};
+
+const getAuthenticationOptions = async (email?: string) => {
+  let allowCredentials: {
+    id: string;
+    transports?: AuthenticatorTransportFuture[];
+  }[] = [];
+
+  // Without an email the client uses discoverable credentials
+  if (email) {
+    const user = await prisma.user.findFirst({
+      where: { email, isDeleted: false },
+      include: { passkeys: true },
+    });
+    allowCredentials = (user?.passkeys || []).map((passkey) => ({
+      id: passkey.credentialId,
+      transports: passkey.transports as AuthenticatorTransportFuture[],
+    }));
+  }
+
+  const options = await generateAuthenticationOptions({
+    rpID: env.webauthn.rpId,
+    allowCredentials,
+    userVerification: "preferred",
+  });
+
+  await saveChallenge(options.challenge, WebAuthnChallengeType.authentication);
+  return options;
+};
+
+const verifyAuthentication = async (response: AuthenticationResponseJSON) => {
+  const passkey = await prisma.passkey.findUnique({
+    where: { credentialId: response.id },
+  });
+  if (!passkey) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Unknown passkey");
+  }
+
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: (challenge) =>
+        consumeChallenge(challenge, WebAuthnChallengeType.authentication),
+      expectedOrigin: env.webauthn.origins,
+      expectedRPID: env.webauthn.rpId,
+      credential: {
+        id: passkey.credentialId,
+        publicKey: passkey.publicKey,
+        counter: passkey.counter,
+        transports: passkey.transports as AuthenticatorTransportFuture[],
+      },
+    });
+  } catch (error: any) {
+    logger.warn("Passkey authentication failed", {
+      passkeyId: passkey.id,
+      error: error.message,
+    });
+    throw new ApiError(
+      httpStatus.UNAUTHORIZED,
+      "Passkey authentication failed",
+    );
+  }
+
+  if (!verification.verified) {
+    throw new ApiError(
+      httpStatus.UNAUTHORIZED,
+      "Passkey authentication failed",
+    );
+  }
+
+  await prisma.passkey.update({
+    where: { id: passkey.id },
+    data: {
+      counter: verification.authenticationInfo.newCounter,
+      lastUsedAt: new Date(),
+    },
+  });
+
+  const user = await prisma.user.findFirst({
+    where: { id: passkey.userId, isDeleted: false },
+    select: userSelect.getUserSelect,
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "User not found");
+  }
+  return user;
+};
+
+const listPasskeys = async (userId: string) => {
+  return await prisma.passkey.findMany({
+    where: { userId },
+    select: passkeySelect,
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+const renamePasskey = async (
+  userId: string,
+  passkeyId: string,
+  name: string,
+) => {
+  const passkey = await prisma.passkey.findFirst({
+    where: { id: passkeyId, userId },
+  });
+  if (!passkey) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Passkey not found");
+  }
+  return await prisma.passkey.update({
+    where: { id: passkeyId },
+    data: { name },
+    select: passkeySelect,
+  });
+};
+
+const deletePasskey = async (userId: string, passkeyId: string) => {
+  const passkey = await prisma.passkey.findFirst({
+    where: { id: passkeyId, userId },
+  });
+  if (!passkey) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Passkey not found");
+  }
+
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      password: true,
+      _count: { select: { identities: true, passkeys: true } },
+    },
+  });
+  const hasOtherLogin =
+    !!user.password || user._count.identities > 0 || user._count.passkeys > 1;
+  if (!hasOtherLogin) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Set a password or add another sign-in method before removing this passkey",
+    );
+  }
+
+  await prisma.passkey.delete({ where: { id: passkeyId } });
+  logger.info("Passkey deleted", { userId, passkeyId });
+  return true;
+};
+
+export default {
+  getRegistrationOptions,
+  verifyRegistration,
+  getAuthenticationOptions,
+  verifyAuthentication,
+  listPasskeys,
+  renamePasskey,
+  deletePasskey,
+};
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+const credentialResponse = z.object({
+  id: z.string(),
+  rawId: z.string(),
+  type: z.literal("public-key"),
+  response: z.record(z.string(), z.any()),
+  clientExtensionResults: z.record(z.string(), z.any()).default({}),
+  authenticatorAttachment: z.string().optional(),
+});
+
+const verifyRegistration = {
+  body: z.object({
+    response: credentialResponse,
+    name: z.string().trim().min(1).max(50).optional(),
+  }),
+};
+
+const getAuthenticationOptions = {
+  body: z.object({
+    email: z.string().email().optional(),
+  }),
+};
+
+const verifyAuthentication = {
+  body: z.object({
+    response: credentialResponse,
+    fcmToken: z.string().optional(),
+    rememberMe: z.boolean().optional(),
+    trustDevice: z.boolean().optional(),
+  }),
+};
+
+const renamePasskey = {
+  params: z.object({
+    passkeyId: z.string().uuid(),
+  }),
+  body: z.object({
+    name: z.string().trim().min(1).max(50),
+  }),
+};
+
+const deletePasskey = {
+  params: z.object({
+    passkeyId: z.string().uuid(),
+  }),
+};
+
+export default {
+  verifyRegistration,
+  getAuthenticationOptions,
+  verifyAuthentication,
+  renamePasskey,
+  deletePasskey,
+};
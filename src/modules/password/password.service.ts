@@ -0,0 +1,166 @@
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import ApiError, { type ApiErrorDetail } from "../../utils/ApiError";
+import breachedPasswords from "../../utils/breachedPasswords";
+import passwordHasher from "../../utils/passwordHasher";
+import passwordLocale from "../../locales/en/password.json";
+
+// Every rule has a message of the same name in the password locale
+type PasswordRule = Exclude<keyof typeof passwordLocale, "policy_violation">;
+
+interface PasswordContext {
+  userId?: string;
+  email?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+}
+
+const violation = (
+  rule: PasswordRule,
+  params?: Record<string, string | number>,
+): ApiErrorDetail => ({
+  field: "password",
+  rule,
+  key: `password.${rule}`,
+  params,
+});
+
+const containsPart = (password: string, part?: string | null) => {
+  // Very short fragments would reject too many legitimate passwords
+  if (!part || part.length < 3) return false;
+  return password.toLowerCase().includes(part.toLowerCase());
+};
+
+const checkComposition = (password: string, context: PasswordContext) => {
+  const policy = env.passwordPolicy;
+  const violations: ApiErrorDetail[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(violation("min_length", { min: policy.minLength }));
+  }
+  if (password.length > policy.maxLength) {
+    violations.push(violation("max_length", { max: policy.maxLength }));
+  }
+  if (policy.requireLetter && !/\p{L}/u.test(password)) {
+    violations.push(violation("letter"));
+  }
+  if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+    violations.push(violation("uppercase"));
+  }
+  if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+    violations.push(violation("lowercase"));
+  }
+  if (policy.requireDigit && !/\d/.test(password)) {
+    violations.push(violation("digit"));
+  }
+  if (policy.requireSymbol && !/[^\p{L}\d]/u.test(password)) {
+    violations.push(violation("symbol"));
+  }
+
+  const emailLocalPart = context.email?.split("@")[0];
+  if (containsPart(password, emailLocalPart)) {
+    violations.push(violation("contains_email"));
+  }
+  if (
+    containsPart(password, context.firstName) ||
+    containsPart(password, context.lastName)
+  ) {
+    violations.push(violation("contains_name"));
+  }
+
+  return violations;
+};
+
+const isReused = async (password: string, userId: string) => {
+  const { historyCount } = env.passwordPolicy;
+  if (historyCount <= 0) return false;
+
+  const history = await prisma.passwordHistory.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    take: historyCount,
+  });
+
+  for (const entry of history) {
+    if (await passwordHasher.verify(password, entry.passwordHash)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Run every configured rule and return all violations at once
+ */
+const validatePassword = async (
+  password: string,
+  context: PasswordContext = {},
+) => {
+  const violations = checkComposition(password, context);
+
+  if (context.userId && (await isReused(password, context.userId))) {
+    violations.push(
+      violation("reused", { count: env.passwordPolicy.historyCount }),
+    );
+  }
+
+  if (env.passwordPolicy.breachedHashesDir) {
+    const count = await breachedPasswords.getBreachCount(
+      password,
+      env.passwordPolicy.breachedHashesDir,
+    );
+    if (count > 0) {
+      violations.push(violation("breached"));
+    }
+  }
+
+  return violations;
+};
+
+const assertPasswordPolicy = async (
+  password: string,
+  context: PasswordContext = {},
+) => {
+  const violations = await validatePassword(password, context);
+  if (violations.length > 0) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Password does not meet the security requirements",
+      true,
+      "",
+      violations,
+      "password.policy_violation",
+    );
+  }
+};
+
+/**
+ * Remember a newly set password hash and prune entries beyond the limit
+ */
+const recordPasswordHistory = async (userId: string, passwordHash: string) => {
+  const { historyCount } = env.passwordPolicy;
+  if (historyCount <= 0) return;
+
+  await prisma.passwordHistory.create({
+    data: { userId, passwordHash },
+  });
+
+  const stale = await prisma.passwordHistory.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    skip: historyCount,
+    select: { id: true },
+  });
+  if (stale.length > 0) {
+    await prisma.passwordHistory.deleteMany({
+      where: { id: { in: stale.map((entry) => entry.id) } },
+    });
+  }
+};
+
+export default {
+  validatePassword,
+  assertPasswordPolicy,
+  recordPasswordHistory,
+};
@@ -0,0 +1,128 @@
+import catchAsync from "../../utils/catchAsync";
+import type { Request, Response } from "express";
+import httpStatus from "http-status";
+import response from "../../utils/response";
+import roleService from "./role.service";
+
+const listRoles = catchAsync(async (req: Request, res: Response) => {
+  const roles = await roleService.listRoles();
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.roles_retrieved"),
+      data: roles,
+    }),
+  );
+});
+
+const getRole = catchAsync(async (req: Request, res: Response) => {
+  const role = await roleService.getRole(req.params.roleId as string);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.role_retrieved"),
+      data: role,
+    }),
+  );
+});
+
+const createRole = catchAsync(async (req: Request, res: Response) => {
+  const role = await roleService.createRole(req.body, req.user?.id!);
+  res.status(httpStatus.CREATED).json(
+    response({
+      status: httpStatus.CREATED,
+      message: req.str("user.role_created"),
+      data: role,
+    }),
+  );
+});
+
+const updateRole = catchAsync(async (req: Request, res: Response) => {
+  const role = await roleService.updateRole(
+    req.params.roleId as string,
+    req.body,
+    req.user?.id!,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.role_updated"),
+      data: role,
+    }),
+  );
+});
+
+const deleteRole = catchAsync(async (req: Request, res: Response) => {
+  await roleService.deleteRole(req.params.roleId as string, req.user?.id!);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.role_deleted"),
+    }),
+  );
+});
+
+const listPermissions = catchAsync(async (req: Request, res: Response) => {
+  const permissions = await roleService.listPermissions();
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.permissions_retrieved"),
+      data: permissions,
+    }),
+  );
+});
+
+const createPermission = catchAsync(async (req: Request, res: Response) => {
+  const permission = await roleService.createPermission(
+    req.body,
+    req.user?.id!,
+  );
+  res.status(httpStatus.CREATED).json(
+    response({
+      status: httpStatus.CREATED,
+      message: req.str("user.permission_created"),
+      data: permission,
+    }),
+  );
+});
+
+const deletePermission = catchAsync(async (req: Request, res: Response) => {
+  await roleService.deletePermission(
+    req.params.permissionId as string,
+    req.user?.id!,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.permission_deleted"),
+    }),
+  );
+});
+
+const assignRole = catchAsync(async (req: Request, res: Response) => {
+  const result = await roleService.assignRole(
+    req.params.userId as string,
+    req.body.role,
+    req.user?.id!,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.role_assigned"),
+      data: result,
+    }),
+  );
+});
+
+export default {
+  listRoles,
+  getRole,
+  createRole,
+  updateRole,
+  deleteRole,
+  listPermissions,
+  createPermission,
+  deletePermission,
+  assignRole,
+};
@@ -0,0 +1,56 @@
+import express, { Router } from "express";
+import auth from "../../middlewares/auth";
+import requireRecentAuth from "../../middlewares/requireRecentAuth";
+import validate from "../../middlewares/validate";
+import roleController from "./role.controller";
+import roleValidation from "./role.validation";
+
+const router: Router = express.Router();
+
+router
+  .route("/permissions")
+  .get(auth("manageRoles"), roleController.listPermissions)
+  .post(
+    auth("manageRoles"),
+    validate(roleValidation.createPermission),
+    roleController.createPermission,
+  );
+
+router.delete(
+  "/permissions/:permissionId",
+  auth("manageRoles"),
+  validate(roleValidation.deletePermission),
+  roleController.deletePermission,
+);
+
+router
+  .route("/")
+  .get(auth("manageRoles"), roleController.listRoles)
+  .post(
+    auth("manageRoles"),
+    requireRecentAuth(),
+    validate(roleValidation.createRole),
+    roleController.createRole,
+  );
+
+router
+  .route("/:roleId")
+  .get(
+    auth("manageRoles"),
+    validate(roleValidation.getRole),
+    roleController.getRole,
+  )
+  .patch(
+    auth("manageRoles"),
+    requireRecentAuth(),
+    validate(roleValidation.updateRole),
+    roleController.updateRole,
+  )
+  .delete(
+    auth("manageRoles"),
+    requireRecentAuth(),
+    validate(roleValidation.deleteRole),
+    roleController.deleteRole,
+  );
+
+export default router;
@@ -0,0 +1,370 @@
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import { defaultRoleRights, permissionDescriptions } from "../../configs/roles";
+import ApiError from "../../utils/ApiError";
+import logger from "../../utils/logger";
+import tokenService from "../token/token.service";
+import { InvitationStatus } from "../../../generated/prisma/enums";
+
+const roleSelect = {
+  id: true,
+  name: true,
+  description: true,
+  isSystem: true,
+  createdAt: true,
+  updatedAt: true,
+  permissions: {
+    select: { permission: { select: { name: true } } },
+  },
+  _count: { select: { users: true } },
+};
+
+const toRole = (role: any) => {
+  const { permissions, _count, ...rest } = role;
+  return {
+    ...rest,
+    permissions: permissions.map((entry: any) => entry.permission.name),
+    userCount: _count.users,
+  };
+};
+
+// Role name -> permission names, refreshed after ROLE_CACHE_TTL_SECONDS
+const permissionCache = new Map<
+  string,
+  { permissions: string[]; expiresAt: number }
+>();
+
+const invalidateCache = () => permissionCache.clear();
+
+/**
+ * Permissions of a role, cached in memory. Unknown roles have none.
+ */
+const getRolePermissions = async (roleName: string) => {
+  const cached = permissionCache.get(roleName);
+  if (cached && cached.expiresAt > Date.now()) return cached.permissions;
+
+  const role = await prisma.role.findUnique({
+    where: { name: roleName },
+    select: {
+      permissions: { select: { permission: { select: { name: true } } } },
+    },
+  });
+  const permissions =
+    role?.permissions.map((entry) => entry.permission.name) ?? [];
+  permissionCache.set(roleName, {
+    permissions,
+    expiresAt: Date.now() + env.roles.cacheTtlSeconds * 1000,
+  });
+  return permissions;
+};
+
+const roleHasPermission = async (roleName: string, permission: string) => {
+  return (await getRolePermissions(roleName)).includes(permission);
+};
+
+const assertRoleExists = async (roleName: string) => {
+  const role = await prisma.role.findUnique({
+    where: { name: roleName },
+    select: { id: true },
+  });
+  if (!role) {
+    throw new ApiError(httpStatus.BAD_REQUEST, `Unknown role: ${roleName}`);
+  }
+};
+
+/**
+ * Create the built-in roles and permissions, and give system roles back
+ * any default permission they are missing. Safe to run on every start.
+ */
+const ensureDefaultRoles = async () => {
+  for (const [name, description] of Object.entries(permissionDescriptions)) {
+    await prisma.permission.upsert({
+      where: { name },
+      create: { name, description, isSystem: true },
+      update: { isSystem: true },
+    });
+  }
+
+  for (const [name, permissionNames] of defaultRoleRights) {
+    const role = await prisma.role.upsert({
+      where: { name },
+      create: { name, isSystem: true },
+      update: { isSystem: true },
+    });
+    const permissions = await prisma.permission.findMany({
+      where: { name: { in: permissionNames } },
+      select: { id: true },
+    });
+    await prisma.rolePermission.createMany({
+      data: permissions.map((permission) => ({
+        roleId: role.id,
+        permissionId: permission.id,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  invalidateCache();
+  logger.info("Default roles ensured", {
+    roles: [...defaultRoleRights.keys()],
+  });
+};
+
+const resolvePermissionIds = async (names: string[]) => {
+  const unique = [...new Set(names)];
+  const permissions = await prisma.permission.findMany({
+    where: { name: { in: unique } },
+    select: { id: true, name: true },
+  });
+  const unknown = unique.filter(
+    (name) => !permissions.some((permission) => permission.name === name),
+  );
+  if (unknown.length > 0) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      `Unknown permissions: ${unknown.join(", ")}`,
+    );
+  }
+  return permissions.map((permission) => permission.id);
+};
+
+const listRoles = async () => {
+  const roles = await prisma.role.findMany({
+    select: roleSelect,
+    orderBy: { name: "asc" },
+  });
+  return roles.map(toRole);
+};
+
+const getRole = async (roleId: string) => {
+  const role = await prisma.role.findUnique({
+    where: { id: roleId },
+    select: roleSelect,
+  });
+  if (!role) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Role not found");
+  }
+  return toRole(role);
+};
+
+const createRole = async (
+  input: { name: string; description?: string; permissions: string[] },
+  adminId: string,
+) => {
+  if (await prisma.role.findUnique({ where: { name: input.name } })) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Role already exists");
+  }
+  const permissionIds = await resolvePermissionIds(input.permissions);
+  const role = await prisma.role.create({
+    data: {
+      name: input.name,
+      description: input.description,
+      permissions: {
+        create: permissionIds.map((permissionId) => ({ permissionId })),
+      },
+    },
+    select: roleSelect,
+  });
+  invalidateCache();
+  logger.info("Role created", {
+    roleId: role.id,
+    name: role.name,
+    permissions: input.permissions,
+    adminId,
+  });
+  return toRole(role);
+};
+
+const updateRole = async (
+  roleId: string,
+  input: { description?: string; permissions?: string[] },
+  adminId: string,
+) => {
+  const role = await prisma.role.findUnique({ where: { id: roleId } });
+  if (!role) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Role not found");
+  }
+
+  let permissionIds: string[] | undefined;
+  if (input.permissions) {
+    // Re-added on every start anyway, so removing them would not stick
+    const defaults = role.isSystem
+      ? defaultRoleRights.get(role.name) || []
+      : [];
+    const missing = defaults.filter(
+      (name) => !input.permissions!.includes(name),
+    );
+    if (missing.length > 0) {
+      throw new ApiError(
+        httpStatus.BAD_REQUEST,
+        `Built-in role ${role.name} must keep: ${missing.join(", ")}`,
+      );
+    }
+    permissionIds = await resolvePermissionIds(input.permissions);
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (permissionIds) {
+      await tx.rolePermission.deleteMany({ where: { roleId } });
+      await tx.rolePermission.createMany({
+        data: permissionIds.map((permissionId) => ({ roleId, permissionId })),
+      });
+    }
+    return await tx.role.update({
+      where: { id: roleId },
+      data: { description: input.description },
+      select: roleSelect,
+    });
+  });
+
+  invalidateCache();
+  logger.info("Role updated", {
+    roleId,
+    name: role.name,
+    permissions: input.permissions,
+    adminId,
+  });
+  return toRole(updated);
+};
+
+const deleteRole = async (roleId: string, adminId: string) => {
+  const role = await prisma.role.findUnique({
+    where: { id: roleId },
+    select: {
+      id: true,
+      name: true,
+      isSystem: true,
+      _count: {
+        select: {
+          users: true,
+          invitations: { where: { status: InvitationStatus.pending } },
+        },
+      },
+    },
+  });
+  if (!role) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Role not found");
+  }
+  if (role.isSystem) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Built-in roles cannot be deleted",
+    );
+  }
+  if (role._count.users > 0) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Reassign the users of this role before deleting it",
+    );
+  }
+  if (role._count.invitations > 0) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Revoke the pending invitations for this role before deleting it",
+    );
+  }
+  // Settled invitations are history only; pending ones block the delete
+  await prisma.$transaction([
+    prisma.invitation.deleteMany({
+      where: { role: role.name, status: { not: InvitationStatus.pending } },
+    }),
+    prisma.role.delete({ where: { id: roleId } }),
+  ]);
+  invalidateCache();
+  logger.warn("Role deleted", { roleId, name: role.name, adminId });
+  return true;
+};
+
+const listPermissions = async () => {
+  return await prisma.permission.findMany({ orderBy: { name: "asc" } });
+};
+
+const createPermission = async (
+  input: { name: string; description?: string },
+  adminId: string,
+) => {
+  if (await prisma.permission.findUnique({ where: { name: input.name } })) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Permission already exists");
+  }
+  const permission = await prisma.permission.create({ data: input });
+  logger.info("Permission created", { name: input.name, adminId });
+  return permission;
+};
+
+const deletePermission = async (permissionId: string, adminId: string) => {
+  const permission = await prisma.permission.findUnique({
+    where: { id: permissionId },
+  });
+  if (!permission) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Permission not found");
+  }
+  if (permission.isSystem) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Built-in permissions cannot be deleted",
+    );
+  }
+  await prisma.permission.delete({ where: { id: permissionId } });
+  invalidateCache();
+  logger.warn("Permission deleted", { name: permission.name, adminId });
+  return true;
+};
+
+/**
+ * Move a user to another role. Their tokens are revoked so no session
+ * keeps acting under the old role.
+ */
+const assignRole = async (
+  userId: string,
+  roleName: string,
+  adminId: string,
+) => {
+  if (userId === adminId) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "You cannot change your own role",
+    );
+  }
+  await assertRoleExists(roleName);
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isDeleted: false },
+    select: { id: true, role: true },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+  if (user.role === roleName) {
+    return { userId, role: roleName };
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { role: roleName },
+  });
+  await tokenService.bumpTokenVersion(userId, "Role changed");
+
+  logger.warn("User role changed", {
+    userId,
+    from: user.role,
+    to: roleName,
+    adminId,
+  });
+  return { userId, role: roleName };
+};
+
+export default {
+  getRolePermissions,
+  roleHasPermission,
+  assertRoleExists,
+  ensureDefaultRoles,
+  listRoles,
+  getRole,
+  createRole,
+  updateRole,
+  deleteRole,
+  listPermissions,
+  createPermission,
+  deletePermission,
+  assignRole,
+};
@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+// Role and permission names are used as identifiers in code and tokens
+const identifier = z
+  .string()
+  .trim()
+  .min(2)
+  .max(50)
+  .regex(/^[A-Za-z][A-Za-z0-9_-]*$/);
+
+const createRole = {
+  body: z.object({
+    name: identifier,
+    description: z.string().trim().max(200).optional(),
+    permissions: z.array(z.string()).default([]),
+  }),
+};
+
+const updateRole = {
+  params: z.object({
+    roleId: z.string().uuid(),
+  }),
+  body: z.object({
+    description: z.string().trim().max(200).optional(),
+    permissions: z.array(z.string()).optional(),
+  }),
+};
+
+const roleId = {
+  params: z.object({
+    roleId: z.string().uuid(),
+  }),
+};
+
+const createPermission = {
+  body: z.object({
+    name: identifier,
+    description: z.string().trim().max(200).optional(),
+  }),
+};
+
+const deletePermission = {
+  params: z.object({
+    permissionId: z.string().uuid(),
+  }),
+};
+
+const assignRole = {
+  params: z.object({
+    userId: z.string().uuid(),
+  }),
+  body: z.object({
+    role: z.string().min(1),
+  }),
+};
+
+export default {
+  createRole,
+  updateRole,
+  getRole: roleId,
+  deleteRole: roleId,
+  createPermission,
+  deletePermission,
+  assignRole,
+};
@@ -4,12 +4,30 @@ import userRouter from "../../user/user.route";
 import settingsRouter from "../../settings/settings.route";
 import transactionRouter from "../../transaction/transaction.route";
 import tokenRouter from "../../token/token.route";
+import twoFactorRouter from "../../twoFactor/twoFactor.route";
+import passkeyRouter from "../../passkey/passkey.route";
+import lockoutRouter from "../../lockout/lockout.route";
+import keyringRouter from "../../keyring/keyring.route";
+import trustedDeviceRouter from "../../trustedDevice/trustedDevice.route";
+import apiKeyRouter from "../../apiKey/apiKey.route";
+import oauthServerRouter from "../../oauthServer/oauthServer.route";
+import invitationRouter from "../../invitation/invitation.route";
+import roleRouter from "../../role/role.route";
 
 const mainRouter: Router = express.Router();
 
+mainRouter.use("/auth/2fa", twoFactorRouter);
+mainRouter.use("/auth/passkeys", passkeyRouter);
+mainRouter.use("/auth/trusted-devices", trustedDeviceRouter);
 mainRouter.use("/auth", authRouter);
 mainRouter.use("/token", tokenRouter);
+mainRouter.use("/api-keys", apiKeyRouter);
+mainRouter.use("/oauth2", oauthServerRouter);
+mainRouter.use("/lockout", lockoutRouter);
+mainRouter.use("/keyring", keyringRouter);
 mainRouter.use("/user", userRouter);
+mainRouter.use("/invitations", invitationRouter);
+mainRouter.use("/roles", roleRouter);
 mainRouter.use("/setting", settingsRouter);
 mainRouter.use("/transaction", transactionRouter);
 
@@ -20,7 +20,10 @@ const querySessions = catchAsync(async (req: Request, res: Response) => {
 
 const revokeSession = catchAsync(async (req: Request, res: Response) => {
   const { userId, tokenId } = req.params;
-  await tokenService.revokeSession(userId as string, tokenId as string);
+  await tokenService.revokeSessionByTokenId(
+    userId as string,
+    tokenId as string,
+  );
   res.status(httpStatus.OK).json(
     response({
       status: httpStatus.OK,
@@ -23,5 +23,7 @@ export interface IToken {
   useCount?: number;
   sessionId?: string;
   rememberMe?: boolean;
+  // The login presented a valid trusted-device secret
+  trustedDevice?: boolean;
   metadata?: any;
 }
\ No newline at end of file
@@ -16,6 +16,8 @@ import jwksClient from "jwks-rsa";
 import config from "../../configs/variables";
 import httpStatus from "http-status";
 import i18n from "../../utils/i18n";
+import loginAlertService from "../loginAlert/loginAlert.service";
+import { CSRF_COOKIE, generateCsrfToken } from "../../utils/csrf";
 
 const client = new OAuth2Client(config.google.clientId);
 const jwks = jwksClient({
@@ -27,6 +29,39 @@ const getKey = async (kid: string) => {
   return key.getPublicKey();
 };
 
+/**
+ * Refresh tokens are stored as a keyed hash, so a copy of the table
+ * cannot be replayed as live sessions
+ */
+const hashRefreshToken = (token: string) => {
+  return crypto
+    .createHmac("sha256", env.jwt.refreshTokenHashSecret)
+    .update(token)
+    .digest("hex");
+};
+
+const revokeTokenFamily = async (tokenFamily: string, reason: string) => {
+  await prisma.token.updateMany({
+    where: { tokenFamily },
+    data: {
+      isRevoked: true,
+      revokedAt: new Date(),
+      revokedReason: reason,
+    },
+  });
+};
+
+/**
+ * With device binding on, a refresh token only rotates for the device id
+ * it was issued to. The fingerprint is not used: it includes the IP, so
+ * a network change would look like token theft and end the session.
+ */
+const isSameClient = (tokenDoc: { deviceId: string | null }, opts: IToken) => {
+  if (!env.jwt.refreshTokenDeviceBinding) return true;
+  if (tokenDoc.deviceId) return tokenDoc.deviceId === opts?.deviceId;
+  return true;
+};
+
 const saveToken = async (opts: {
   userId: string;
   token: string;
@@ -40,6 +75,7 @@ const saveToken = async (opts: {
   type?: tokenType;
   metadata?: any;
   expiresAt?: Date;
+  authenticatedAt?: Date | null;
 }) => {
   const {
     userId,
@@ -54,11 +90,12 @@ const saveToken = async (opts: {
     type = tokenType.refresh,
     metadata = {},
     expiresAt = new Date(),
+    authenticatedAt = null,
   } = opts;
 
   return await prisma.token.create({
     data: {
-      token,
+      token: hashRefreshToken(token),
       userId,
       type,
       deviceId,
@@ -72,6 +109,7 @@ const saveToken = async (opts: {
       isRevoked: false,
       useCount: 0,
       expiresAt,
+      authenticatedAt,
     },
   });
 };
@@ -84,19 +122,40 @@ const generateLoginTokens = async (opts: IToken) => {
     ipAddress,
     userAgent,
     rememberMe,
+    trustedDevice,
     metadata,
   } = opts;
 
-  const accessToken = jwt.generateToken(
-    { sub: userId, type: tokenType.access },
+  const { tokenVersion, deletionScheduledFor, isDeleted } =
+    await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: {
+        tokenVersion: true,
+        deletionScheduledFor: true,
+        isDeleted: true,
+      },
+    });
+  // Signing in during the grace period cancels a self-requested deletion
+  if (deletionScheduledFor && !isDeleted) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { deletionRequestedAt: null, deletionScheduledFor: null },
+    });
+    logger.info("Scheduled account deletion cancelled by login", { userId });
+  }
+  // The refresh token family doubles as the session id
+  const tokenFamily = crypto.randomBytes(16).toString("hex");
+  const claims = { sub: userId, sid: tokenFamily, tv: tokenVersion };
+
+  const accessToken = await jwt.generateToken(
+    { ...claims, type: tokenType.access },
     env.jwt.expiryAccessToken,
   );
-  const refreshToken = jwt.generateToken(
-    { sub: userId, type: tokenType.refresh },
+  const refreshToken = await jwt.generateToken(
+    { ...claims, type: tokenType.refresh },
     env.jwt.expiryRefreshToken,
   );
 
-  const tokenFamily = crypto.randomBytes(16).toString("hex");
   const expirationDays = rememberMe ? 30 : 7;
   const expiresAt = new Date();
   expiresAt.setDate(expiresAt.getDate() + expirationDays);
@@ -112,10 +171,23 @@ const generateLoginTokens = async (opts: IToken) => {
     rememberMe,
     tokenFamily,
     metadata,
+    authenticatedAt: new Date(),
   });
 
   logger.info("User tokens generated", { userId, deviceName });
 
+  // Alerts must neither delay nor fail the login
+  setImmediate(() => {
+    loginAlertService
+      .checkLogin(userId, tokenFamily, trustedDevice)
+      .catch((error) =>
+        logger.error("Login alert check failed", {
+          userId,
+          error: error.message,
+        }),
+      );
+  });
+
   return {
     access: {
       token: accessToken,
@@ -131,7 +203,7 @@ const generateLoginTokens = async (opts: IToken) => {
 const refreshAuth = async (refreshToken: string, opts: IToken) => {
   let payload: any;
   try {
-    payload = jwt.verifyToken(refreshToken);
+    payload = await jwt.verifyToken(refreshToken);
   } catch (err) {
     throw new ApiError(status.FORBIDDEN, "Invalid refresh token (signature).");
   }
@@ -140,11 +212,11 @@ const refreshAuth = async (refreshToken: string, opts: IToken) => {
     throw new ApiError(status.FORBIDDEN, "Token is not a refresh token.");
   }
 
+  // Rotated tokens are revoked, so look them up regardless to spot reuse
   const tokenDoc = await prisma.token.findFirst({
     where: {
-      token: refreshToken,
+      token: hashRefreshToken(refreshToken),
       type: tokenType.refresh,
-      isRevoked: false,
     },
   });
 
@@ -152,28 +224,27 @@ const refreshAuth = async (refreshToken: string, opts: IToken) => {
     throw new ApiError(status.FORBIDDEN, "Refresh token not found or revoked.");
   }
 
-  if (tokenDoc.expiresAt && tokenDoc.expiresAt.getTime() < Date.now()) {
-    await prisma.token.delete({ where: { id: tokenDoc.id } }).catch(() => {});
-    throw new ApiError(status.FORBIDDEN, "Refresh token expired.");
-  }
-
-  // Check for token reuse (security)
-  if (tokenDoc.useCount > 0) {
-    logger.error("Refresh token reuse detected", {
-      userId: tokenDoc.userId,
-      tokenFamily: tokenDoc.tokenFamily,
-    });
+  // Check for token reuse (security); a token presented from another
+  // client is treated the same way
+  const reused = tokenDoc.useCount > 0;
+  if (reused || (!tokenDoc.isRevoked && !isSameClient(tokenDoc, opts))) {
+    logger.error(
+      reused
+        ? "Refresh token reuse detected"
+        : "Refresh token presented from another device",
+      {
+        userId: tokenDoc.userId,
+        tokenFamily: tokenDoc.tokenFamily,
+        deviceId: opts?.deviceId,
+      },
+    );
 
     // Revoke entire token family
     if (tokenDoc.tokenFamily) {
-      await prisma.token.updateMany({
-        where: { tokenFamily: tokenDoc.tokenFamily },
-        data: {
-          isRevoked: true,
-          revokedAt: new Date(),
-          revokedReason: "Token family revoked due to reuse",
-        },
-      });
+      await revokeTokenFamily(
+        tokenDoc.tokenFamily,
+        "Token family revoked due to reuse",
+      );
     }
 
     throw new ApiError(
@@ -182,25 +253,32 @@ const refreshAuth = async (refreshToken: string, opts: IToken) => {
     );
   }
 
-  // Mark old token as used and revoked (token rotation)
-  await prisma.token.update({
-    where: { id: tokenDoc.id },
-    data: {
-      lastUsedAt: new Date(),
-      useCount: { increment: 1 },
-      isRevoked: true,
-      revokedReason: "Token rotated",
-    },
-  });
+  if (tokenDoc.isRevoked) {
+    throw new ApiError(status.FORBIDDEN, "Refresh token not found or revoked.");
+  }
+
+  if (tokenDoc.expiresAt && tokenDoc.expiresAt.getTime() < Date.now()) {
+    await prisma.token.delete({ where: { id: tokenDoc.id } }).catch(() => {});
+    throw new ApiError(status.FORBIDDEN, "Refresh token expired.");
+  }
 
   const userId = payload.sub;
 
-  const newAccessToken = jwt.generateToken(
-    { sub: userId, type: tokenType.access },
+  const { tokenVersion } = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { tokenVersion: true },
+  });
+  if ((payload.tv ?? 0) !== tokenVersion) {
+    throw new ApiError(status.FORBIDDEN, "Refresh token has been revoked.");
+  }
+  const claims = { sub: userId, sid: tokenDoc.tokenFamily!, tv: tokenVersion };
+
+  const newAccessToken = await jwt.generateToken(
+    { ...claims, type: tokenType.access },
     env.jwt.expiryAccessToken,
   );
-  const newRefreshToken = jwt.generateToken(
-    { sub: userId, type: tokenType.refresh },
+  const newRefreshToken = await jwt.generateToken(
+    { ...claims, type: tokenType.refresh },
     env.jwt.expiryRefreshToken,
   );
 
@@ -220,6 +298,19 @@ const refreshAuth = async (refreshToken: string, opts: IToken) => {
     tokenFamily: tokenDoc.tokenFamily!, // KEEP SAME FAMILY
     replacesTokenId: tokenDoc.id, // Track chain
     metadata: tokenDoc.metadata,
+    authenticatedAt: tokenDoc.authenticatedAt,
+  });
+
+  // Revoke the old token only after its successor exists, so the
+  // session never looks inactive to requests in flight
+  await prisma.token.update({
+    where: { id: tokenDoc.id },
+    data: {
+      lastUsedAt: new Date(),
+      useCount: { increment: 1 },
+      isRevoked: true,
+      revokedReason: "Token rotated",
+    },
   });
 
   logger.info("Tokens refreshed", { userId });
@@ -239,7 +330,7 @@ const refreshAuth = async (refreshToken: string, opts: IToken) => {
 const revokeRefreshToken = async (token: string, reason = "user_logout") => {
   const tokenDoc = await prisma.token.updateMany({
     where: {
-      token,
+      token: hashRefreshToken(token),
       type: tokenType.refresh,
       isRevoked: false,
     },
@@ -254,13 +345,18 @@ const revokeRefreshToken = async (token: string, reason = "user_logout") => {
 
 const revokeAllForUser = async (
   userId: string,
-  opts?: { reason?: string; deviceId?: string },
+  opts?: { reason?: string; deviceId?: string; exceptSessionId?: string },
 ) => {
   await prisma.token.updateMany({
     where: {
       userId,
       type: tokenType.refresh,
       isRevoked: false,
+      // Keep the session of the device that asked for the revocation
+      ...(opts?.deviceId && { deviceId: { not: opts.deviceId } }),
+      ...(opts?.exceptSessionId && {
+        tokenFamily: { not: opts.exceptSessionId },
+      }),
     },
     data: {
       isRevoked: true,
@@ -271,12 +367,90 @@ const revokeAllForUser = async (
   return true;
 };
 
-const verifyAccessToken = (rawAccessToken: string) => {
+/**
+ * Invalidate every access and refresh token issued so far,
+ * including ones whose session is still active
+ */
+const bumpTokenVersion = async (userId: string, reason: string) => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { tokenVersion: { increment: 1 } },
+  });
+  await revokeAllForUser(userId, { reason });
+  // Grants given to third-party apps end as well
+  await prisma.token.updateMany({
+    where: { userId, type: tokenType.oauth_refresh, isRevoked: false },
+    data: { isRevoked: true, revokedAt: new Date(), revokedReason: reason },
+  });
+  // API keys carry no version, so they are revoked outright
+  await prisma.apiKey.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  logger.info("User token version bumped", { userId, reason });
+};
+
+/**
+ * A session stays active while its family has an unrevoked refresh token
+ */
+const isSessionActive = async (
+  sessionId: string,
+  type: tokenType = tokenType.refresh,
+) => {
+  const active = await prisma.token.findFirst({
+    where: {
+      tokenFamily: sessionId,
+      type,
+      isRevoked: false,
+      expiresAt: { gt: new Date() },
+    },
+    select: { id: true },
+  });
+  return !!active;
+};
+
+/**
+ * Record that the user just confirmed their credentials on this session
+ */
+const markSessionAuthenticated = async (sessionId: string) => {
+  const result = await prisma.token.updateMany({
+    where: {
+      tokenFamily: sessionId,
+      type: tokenType.refresh,
+      isRevoked: false,
+    },
+    data: { authenticatedAt: new Date() },
+  });
+  return result.count > 0;
+};
+
+const getSessionAuthenticatedAt = async (sessionId: string) => {
+  const token = await prisma.token.findFirst({
+    where: {
+      tokenFamily: sessionId,
+      type: tokenType.refresh,
+      isRevoked: false,
+    },
+    select: { authenticatedAt: true },
+    orderBy: { createdAt: "desc" },
+  });
+  return token?.authenticatedAt ?? null;
+};
+
+const verifyAccessToken = async (rawAccessToken: string) => {
   try {
-    const payload = jwt.verifyToken(rawAccessToken);
+    const payload = await jwt.verifyToken(rawAccessToken);
     if (!payload) throw new Error("invalid token");
     if (payload.type !== tokenType.access)
       throw new Error("invalid token type");
+    const user = await prisma.user.findUnique({
+      where: { id: payload.sub },
+      select: { tokenVersion: true },
+    });
+    if (!user || (payload.tv ?? 0) !== user.tokenVersion)
+      throw new Error("token version revoked");
+    if (payload.sid && !(await isSessionActive(payload.sid)))
+      throw new Error("session revoked");
     return payload;
   } catch (err) {
     throw new ApiError(status.UNAUTHORIZED, "Invalid access token.");
@@ -300,25 +474,122 @@ const listUserSessions = async (options: PaginationOptions, filters: any) => {
   return await paginate(prisma.token, options, queryFilters);
 };
 
-const revokeSession = async (userId: string, sessionId: string) => {
-  const token = await prisma.token.findFirst({
-    where: { id: sessionId, userId, type: tokenType.refresh },
+/**
+ * Revoke a session by its id, the refresh token family. Every token of
+ * the family goes, so access tokens of the session fail too.
+ */
+const revokeSession = async (
+  userId: string,
+  sessionId: string,
+  reason = "Revoked by user",
+) => {
+  const result = await prisma.token.updateMany({
+    where: {
+      tokenFamily: sessionId,
+      userId,
+      type: tokenType.refresh,
+      isRevoked: false,
+    },
+    data: {
+      isRevoked: true,
+      revokedAt: new Date(),
+      revokedReason: reason,
+    },
   });
 
+  if (result.count === 0) {
+    throw new ApiError(status.NOT_FOUND, "Session not found");
+  }
+  return true;
+};
+
+/**
+ * Admin variant keyed on a refresh token row from the raw token listing
+ */
+const revokeSessionByTokenId = async (
+  userId: string,
+  tokenId: string,
+  reason = "Revoked by admin",
+) => {
+  const token = await prisma.token.findFirst({
+    where: { id: tokenId, userId, type: tokenType.refresh },
+  });
   if (!token) {
     throw new ApiError(status.NOT_FOUND, "Session not found");
   }
+  if (token.tokenFamily) {
+    return await revokeSession(userId, token.tokenFamily, reason);
+  }
 
   await prisma.token.update({
-    where: { id: sessionId },
-    data: {
-      isRevoked: true,
-      revokedAt: new Date(),
-      revokedReason: "Revoked by user",
+    where: { id: token.id },
+    data: { isRevoked: true, revokedAt: new Date(), revokedReason: reason },
+  });
+  return true;
+};
+
+const sessionSelect = {
+  id: true,
+  tokenFamily: true,
+  deviceId: true,
+  deviceName: true,
+  ipAddress: true,
+  userAgent: true,
+  rememberMe: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+};
+
+/**
+ * Active sessions of a user, one per refresh token family.
+ * `id` is the current refresh token row and changes on every refresh;
+ * `sessionId` is stable and is what the session routes take.
+ */
+const listOwnSessions = async (userId: string, currentSessionId?: string) => {
+  const tokens = await prisma.token.findMany({
+    where: {
+      userId,
+      type: tokenType.refresh,
+      isRevoked: false,
+      expiresAt: { gt: new Date() },
     },
+    select: sessionSelect,
+    orderBy: { createdAt: "desc" },
   });
 
-  return true;
+  return tokens.map(({ tokenFamily, ...session }) => ({
+    ...session,
+    sessionId: tokenFamily,
+    lastActiveAt: session.lastUsedAt ?? session.createdAt,
+    isCurrent: !!tokenFamily && tokenFamily === currentSessionId,
+  }));
+};
+
+const renameSession = async (
+  userId: string,
+  sessionId: string,
+  deviceName: string,
+) => {
+  const token = await prisma.token.findFirst({
+    where: {
+      tokenFamily: sessionId,
+      userId,
+      type: tokenType.refresh,
+      isRevoked: false,
+      expiresAt: { gt: new Date() },
+    },
+  });
+  if (!token) {
+    throw new ApiError(status.NOT_FOUND, "Session not found");
+  }
+
+  // Rotated tokens copy the name, so updating the live row is enough
+  return await prisma.token.update({
+    where: { id: token.id },
+    data: { deviceName },
+    select: sessionSelect,
+  });
 };
 
 const cleanupExpiredTokens = async () => {
@@ -361,6 +632,23 @@ const setAuthCookies = (
     expires: token.refresh.expiresAt,
     path: "/api/v1/auth/refresh-tokens",
   });
+
+  setCsrfCookie(res, token.refresh.expiresAt);
+};
+
+/**
+ * Issue a fresh CSRF token in a cookie the frontend can read; returned
+ * too for frontends on another domain that cannot read our cookies
+ */
+const setCsrfCookie = (res: Response, expiresAt?: Date) => {
+  const csrfToken = generateCsrfToken();
+  res.cookie(CSRF_COOKIE, csrfToken, {
+    httpOnly: false,
+    secure: !variables.DEBUG,
+    sameSite: variables.DEBUG ? "lax" : "none",
+    expires: expiresAt ?? strToDate(env.jwt.expiryRefreshToken),
+  });
+  return csrfToken;
 };
 
 const verifyGoogleIdToken = async (googleIdToken: string) => {
@@ -418,11 +706,19 @@ export default {
   refreshAuth,
   revokeRefreshToken,
   revokeAllForUser,
+  bumpTokenVersion,
+  isSessionActive,
+  markSessionAuthenticated,
+  getSessionAuthenticatedAt,
   verifyAccessToken,
   listUserSessions,
   revokeSession,
+  revokeSessionByTokenId,
+  listOwnSessions,
+  renameSession,
   cleanupExpiredTokens,
   setAuthCookies,
+  setCsrfCookie,
   verifyGoogleIdToken,
   verifyAppleIdToken,
   // Oauth Verify
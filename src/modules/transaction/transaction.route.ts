@@ -8,7 +8,7 @@ const router = express.Router();
 
 router.get(
   "/all",
-  auth("provider"),
+  auth("manageTransactions"),
   validate(transactionValidation.getAllTransactions),
   transactionController.getAllTransactions
 );
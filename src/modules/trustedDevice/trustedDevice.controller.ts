@@ -0,0 +1,50 @@
+import catchAsync from "../../utils/catchAsync";
+import type { Request, Response } from "express";
+import httpStatus from "http-status";
+import response from "../../utils/response";
+import trustedDeviceService from "./trustedDevice.service";
+
+const listTrustedDevices = catchAsync(async (req: Request, res: Response) => {
+  const devices = await trustedDeviceService.listTrustedDevices(req.user?.id!);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.trusted_devices_retrieved"),
+      data: devices,
+    }),
+  );
+});
+
+const revokeTrustedDevice = catchAsync(async (req: Request, res: Response) => {
+  await trustedDeviceService.revokeTrustedDevice(
+    req.user?.id!,
+    req.params.trustedDeviceId as string,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.trusted_device_revoked"),
+    }),
+  );
+});
+
+const revokeAllTrustedDevices = catchAsync(
+  async (req: Request, res: Response) => {
+    await trustedDeviceService.revokeAllForUser(
+      req.user?.id!,
+      "Revoked by user",
+    );
+    res.status(httpStatus.OK).json(
+      response({
+        status: httpStatus.OK,
+        message: req.str("auth.trusted_devices_revoked"),
+      }),
+    );
+  },
+);
+
+export default {
+  listTrustedDevices,
+  revokeTrustedDevice,
+  revokeAllTrustedDevices,
+};
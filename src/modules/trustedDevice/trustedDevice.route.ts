@@ -0,0 +1,38 @@
+import express, { Router } from "express";
+import auth from "../../middlewares/auth";
+import denyImpersonation from "../../middlewares/denyImpersonation";
+import requireRecentAuth from "../../middlewares/requireRecentAuth";
+import requireUserSession from "../../middlewares/requireUserSession";
+import validate from "../../middlewares/validate";
+import trustedDeviceController from "./trustedDevice.controller";
+import trustedDeviceValidation from "./trustedDevice.validation";
+
+const router: Router = express.Router();
+
+router
+  .route("/")
+  .get(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    trustedDeviceController.listTrustedDevices,
+  )
+  .delete(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    requireRecentAuth(),
+    trustedDeviceController.revokeAllTrustedDevices,
+  );
+
+router.delete(
+  "/:trustedDeviceId",
+  auth("common"),
+  denyImpersonation,
+  requireUserSession,
+  requireRecentAuth(),
+  validate(trustedDeviceValidation.revokeTrustedDevice),
+  trustedDeviceController.revokeTrustedDevice,
+);
+
+export default router;
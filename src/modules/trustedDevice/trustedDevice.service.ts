@@ -0,0 +1,156 @@
+import crypto from "crypto";
+import httpStatus from "http-status";
+import type { CookieOptions, Request, Response } from "express";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import ApiError from "../../utils/ApiError";
+import logger from "../../utils/logger";
+import { DeviceInfo } from "../../types/express";
+
+// Device ids and fingerprints are client controlled, so only a random
+// secret handed out when the device was trusted proves it. Browsers keep
+// it in an httpOnly cookie, other clients send it back in the header.
+const TRUSTED_DEVICE_COOKIE = "trustedDevice";
+const TRUSTED_DEVICE_HEADER = "x-trusted-device";
+
+const hashSecret = (secret: string) => {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+};
+
+const getDeviceSecret = (req: Request): string | undefined => {
+  return req.cookies?.[TRUSTED_DEVICE_COOKIE] || req.get(TRUSTED_DEVICE_HEADER);
+};
+
+const activeFilter = () => ({
+  revokedAt: null,
+  expiresAt: { gt: new Date() },
+});
+
+const trustedDeviceSelect = {
+  id: true,
+  deviceId: true,
+  deviceName: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+};
+
+/**
+ * Trust the current device for `TRUSTED_DEVICE_DAYS`. Only call this
+ * right after a strong login (second factor or passkey). The returned
+ * secret is shown once; only its hash is stored.
+ */
+const trustDevice = async (
+  userId: string,
+  device?: DeviceInfo,
+  currentSecret?: string,
+) => {
+  // Trusting again restarts the period instead of stacking records
+  if (currentSecret) {
+    await prisma.trustedDevice.updateMany({
+      where: { userId, secretHash: hashSecret(currentSecret), revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: "Trusted again" },
+    });
+  }
+
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + env.trustedDevice.days);
+
+  const trusted = await prisma.trustedDevice.create({
+    data: {
+      userId,
+      secretHash: hashSecret(secret),
+      deviceId: device?.deviceId,
+      fingerprint: device?.fingerprint,
+      deviceName: device?.deviceName,
+      userAgent: device?.userAgent,
+      ipAddress: device?.ip,
+      expiresAt,
+    },
+    select: trustedDeviceSelect,
+  });
+
+  logger.info("Device trusted", {
+    userId,
+    trustedDeviceId: trusted.id,
+    deviceName: device?.deviceName,
+  });
+  return { trusted, secret };
+};
+
+const setTrustedDeviceCookie = (
+  res: Response,
+  secret: string,
+  expiresAt: Date,
+) => {
+  const cookieOptions: CookieOptions = {
+    httpOnly: true,
+    secure: !env.DEBUG,
+    sameSite: env.DEBUG ? "lax" : "none",
+    expires: expiresAt,
+  };
+  res.cookie(TRUSTED_DEVICE_COOKIE, secret, cookieOptions);
+};
+
+const isTrusted = async (userId: string, secret?: string) => {
+  if (!secret) return false;
+
+  const trusted = await prisma.trustedDevice.findFirst({
+    where: { userId, secretHash: hashSecret(secret), ...activeFilter() },
+    select: { id: true },
+  });
+  if (!trusted) return false;
+
+  await prisma.trustedDevice.update({
+    where: { id: trusted.id },
+    data: { lastUsedAt: new Date() },
+  });
+  return true;
+};
+
+const listTrustedDevices = async (userId: string) => {
+  return await prisma.trustedDevice.findMany({
+    where: { userId, ...activeFilter() },
+    select: trustedDeviceSelect,
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+const revokeTrustedDevice = async (userId: string, trustedDeviceId: string) => {
+  const result = await prisma.trustedDevice.updateMany({
+    where: { id: trustedDeviceId, userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: "Revoked by user" },
+  });
+  if (result.count === 0) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Trusted device not found");
+  }
+  return true;
+};
+
+const revokeAllForUser = async (userId: string, reason: string) => {
+  const result = await prisma.trustedDevice.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  if (result.count > 0) {
+    logger.info("Trusted devices revoked", {
+      userId,
+      reason,
+      count: result.count,
+    });
+  }
+  return true;
+};
+
+export default {
+  getDeviceSecret,
+  trustDevice,
+  setTrustedDeviceCookie,
+  isTrusted,
+  listTrustedDevices,
+  revokeTrustedDevice,
+  revokeAllForUser,
+};
@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+const revokeTrustedDevice = {
+  params: z.object({
+    trustedDeviceId: z.string().uuid(),
+  }),
+};
+
+export default {
+  revokeTrustedDevice,
+};
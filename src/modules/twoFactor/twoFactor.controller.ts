@@ -0,0 +1,139 @@
+import catchAsync from "../../utils/catchAsync";
+import type { Request, Response } from "express";
+import httpStatus from "http-status";
+import response from "../../utils/response";
+import twoFactorService from "./twoFactor.service";
+import tokenService from "../token/token.service";
+import userService from "../user/user.service";
+import trustedDeviceService from "../trustedDevice/trustedDevice.service";
+import logger from "../../utils/logger";
+
+const setup = catchAsync(async (req: Request, res: Response) => {
+  const data = await twoFactorService.setup(req.user?.id!);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.two_factor_setup"),
+      data,
+    }),
+  );
+});
+
+const enable = catchAsync(async (req: Request, res: Response) => {
+  const data = await twoFactorService.enable(req.user?.id!, req.body.code);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.two_factor_enabled"),
+      data,
+    }),
+  );
+});
+
+const disable = catchAsync(async (req: Request, res: Response) => {
+  const { password, code, recoveryCode } = req.body;
+  await twoFactorService.disable(req.user?.id!, password, {
+    code,
+    recoveryCode,
+  });
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.two_factor_disabled"),
+    }),
+  );
+});
+
+const regenerateRecoveryCodes = catchAsync(
+  async (req: Request, res: Response) => {
+    const data = await twoFactorService.regenerateRecoveryCodes(
+      req.user?.id!,
+      req.body.code,
+    );
+    res.status(httpStatus.OK).json(
+      response({
+        status: httpStatus.OK,
+        message: req.str("auth.recovery_codes_regenerated"),
+        data,
+      }),
+    );
+  },
+);
+
+const verify = catchAsync(async (req: Request, res: Response) => {
+  const {
+    mfaToken,
+    code,
+    recoveryCode,
+    fcmToken,
+    rememberMe = false,
+    trustDevice = false,
+  } = req.body;
+
+  const user = await twoFactorService.verifyChallenge(
+    mfaToken,
+    { code, recoveryCode },
+    req.device,
+  );
+
+  const token = await tokenService.generateLoginTokens({
+    userId: user?.id!,
+    deviceId: req.device?.deviceId,
+    deviceName: req.device?.deviceName,
+    userAgent: req.device?.userAgent,
+    ipAddress: req.device?.ip,
+    rememberMe: rememberMe,
+    metadata: {
+      fingerprint: req.device?.fingerprint,
+      deviceType: req.device?.deviceType,
+      browser: req.device?.browser,
+      os: req.device?.os,
+      timezone: req.device?.timezone,
+      isBot: req.device?.isBot,
+      geo: req.device?.geo,
+    },
+  });
+
+  if (fcmToken) {
+    await userService.updateUser(user?.id!, { fcmToken }, {});
+  }
+
+  // The secret goes to browsers as a cookie and to other clients in the
+  // response; either one is needed to skip the second factor later
+  let trustedDevice;
+  if (trustDevice) {
+    const { trusted, secret } = await trustedDeviceService.trustDevice(
+      user?.id!,
+      req.device,
+      trustedDeviceService.getDeviceSecret(req),
+    );
+    trustedDeviceService.setTrustedDeviceCookie(res, secret, trusted.expiresAt);
+    trustedDevice = { token: secret, expiresAt: trusted.expiresAt };
+  }
+
+  logger.info("User logged in with two-factor authentication", {
+    userId: user?.id,
+    email: user?.email,
+    deviceName: req.device?.deviceName,
+    ip: req.device?.ip,
+  });
+
+  tokenService.setAuthCookies(res, token);
+
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("auth.login_success"),
+      data: user,
+      token: { ...token, ...(trustedDevice && { trustedDevice }) },
+    }),
+  );
+});
+
+export default {
+  setup,
+  enable,
+  disable,
+  regenerateRecoveryCodes,
+  verify,
+};
@@ -0,0 +1,57 @@
+import express, { Router } from "express";
+import auth from "../../middlewares/auth";
+import denyImpersonation from "../../middlewares/denyImpersonation";
+import requireRecentAuth from "../../middlewares/requireRecentAuth";
+import requireUserSession from "../../middlewares/requireUserSession";
+import validate from "../../middlewares/validate";
+import twoFactorController from "./twoFactor.controller";
+import twoFactorValidation from "./twoFactor.validation";
+
+const router: Router = express.Router();
+
+router.post(
+  "/setup",
+  auth("common"),
+  denyImpersonation,
+  requireUserSession,
+  requireRecentAuth(),
+  twoFactorController.setup,
+);
+
+router.post(
+  "/enable",
+  auth("common"),
+  denyImpersonation,
+  requireUserSession,
+  requireRecentAuth(),
+  validate(twoFactorValidation.enable),
+  twoFactorController.enable,
+);
+
+router.post(
+  "/disable",
+  auth("common"),
+  denyImpersonation,
+  requireUserSession,
+  requireRecentAuth(),
+  validate(twoFactorValidation.disable),
+  twoFactorController.disable,
+);
+
+router.post(
+  "/recovery-codes",
+  auth("common"),
+  denyImpersonation,
+  requireUserSession,
+  requireRecentAuth(),
+  validate(twoFactorValidation.regenerateRecoveryCodes),
+  twoFactorController.regenerateRecoveryCodes,
+);
+
+router.post(
+  "/verify",
+  validate(twoFactorValidation.verify),
+  twoFactorController.verify,
+);
+
+export default router;
@@ -0,0 +1,377 @@
+import ApiError from "../../utils/ApiError";
+import httpStatus from "http-status";
+import prisma from "../../configs/prisma";
+import env from "../../configs/variables";
+import crypto from "crypto";
+import QRCode from "qrcode";
+import totp from "../../utils/totp";
+import passwordHasher from "../../utils/passwordHasher";
+import jwt from "../../utils/jwt";
+import logger from "../../utils/logger";
+import { strToDate } from "../../utils/date";
+import { tokenType } from "../../../generated/prisma/enums";
+import userSelect from "../user/user.select";
+import lockoutService from "../lockout/lockout.service";
+import { DeviceInfo } from "../../types/express";
+
+const RECOVERY_CODE_COUNT = 10;
+
+const hashRecoveryCode = (code: string) => {
+  return crypto
+    .createHash("sha256")
+    .update(code.replace(/-/g, "").toLowerCase())
+    .digest("hex");
+};
+
+const hashChallengeId = (jti: string) => {
+  return crypto.createHash("sha256").update(jti).digest("hex");
+};
+
+const generateRecoveryCodes = () => {
+  const codes: string[] = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = crypto.randomBytes(5).toString("hex");
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+  return codes;
+};
+
+const getUserOrThrow = async (userId: string) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isDeleted: false },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+  return user;
+};
+
+/**
+ * Accept a TOTP code only once: its time step has to be newer than the
+ * last one accepted for the user, so a seen code cannot be replayed
+ */
+const consumeTotpCode = async (
+  userId: string,
+  secret: string,
+  code: string,
+) => {
+  const step = totp.findCodeStep(secret, code);
+  if (step === null) return false;
+
+  const result = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [
+        { twoFactorLastUsedStep: null },
+        { twoFactorLastUsedStep: { lt: step } },
+      ],
+    },
+    data: { twoFactorLastUsedStep: step },
+  });
+  if (result.count === 0) {
+    logger.warn("Two-factor code replayed", { userId });
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Verify either a TOTP code or a recovery code for a user.
+ * A matching recovery code is consumed.
+ */
+const verifySecondFactor = async (
+  user: {
+    id: string;
+    twoFactorSecret: string | null;
+    twoFactorRecoveryCodes: string[];
+  },
+  factor: { code?: string; recoveryCode?: string },
+) => {
+  if (factor.code) {
+    return (
+      !!user.twoFactorSecret &&
+      (await consumeTotpCode(user.id, user.twoFactorSecret, factor.code))
+    );
+  }
+
+  if (factor.recoveryCode) {
+    const hashed = hashRecoveryCode(factor.recoveryCode);
+    if (!user.twoFactorRecoveryCodes.includes(hashed)) {
+      return false;
+    }
+    // Only write over the list that was read, so a code used by two
+    // requests at once is spent by just one of them
+    const result = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        twoFactorRecoveryCodes: { equals: user.twoFactorRecoveryCodes },
+      },
+      data: {
+        twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(
+          (c) => c !== hashed,
+        ),
+      },
+    });
+    if (result.count === 0) return false;
+    logger.warn("Two-factor recovery code used", { userId: user.id });
+    return true;
+  }
+
+  return false;
+};
+
+const setup = async (userId: string) => {
+  const user = await getUserOrThrow(userId);
+  if (user.twoFactorEnabled) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Two-factor authentication is already enabled",
+    );
+  }
+
+  const secret = totp.generateSecret();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorSecret: secret, twoFactorLastUsedStep: null },
+  });
+
+  const otpauthUrl = totp.buildOtpAuthUrl(secret, user.email, env.APP_NAME);
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+  return { secret, otpauthUrl, qrCode };
+};
+
+const enable = async (userId: string, code: string) => {
+  const user = await getUserOrThrow(userId);
+  if (user.twoFactorEnabled) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Two-factor authentication is already enabled",
+    );
+  }
+  if (!user.twoFactorSecret) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Two-factor setup has not been started",
+    );
+  }
+  if (!(await consumeTotpCode(userId, user.twoFactorSecret, code))) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid two-factor code");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorEnabled: true,
+      twoFactorEnabledAt: new Date(),
+      twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    },
+  });
+
+  logger.info("Two-factor authentication enabled", { userId });
+  return { recoveryCodes };
+};
+
+const disable = async (
+  userId: string,
+  password: string,
+  factor: { code?: string; recoveryCode?: string },
+) => {
+  const user = await getUserOrThrow(userId);
+  if (!user.twoFactorEnabled) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Two-factor authentication is not enabled",
+    );
+  }
+  const isPasswordMatch = await passwordHasher.verify(password, user.password);
+  if (!isPasswordMatch) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Incorrect password");
+  }
+  if (!(await verifySecondFactor(user, factor))) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid two-factor code");
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: [],
+      twoFactorEnabledAt: null,
+      twoFactorLastUsedStep: null,
+    },
+  });
+
+  logger.info("Two-factor authentication disabled", { userId });
+  return true;
+};
+
+const regenerateRecoveryCodes = async (userId: string, code: string) => {
+  const user = await getUserOrThrow(userId);
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Two-factor authentication is not enabled",
+    );
+  }
+  if (!(await consumeTotpCode(userId, user.twoFactorSecret, code))) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid two-factor code");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+  });
+  return { recoveryCodes };
+};
+
+/**
+ * Issue a short-lived challenge token after a correct password.
+ * It cannot be used as an access token (passport only accepts type=access).
+ * Its jti is stored so the challenge can be used once and dropped after
+ * `MFA_MAX_ATTEMPTS` wrong codes.
+ */
+const createChallenge = async (userId: string) => {
+  const jti = crypto.randomBytes(32).toString("hex");
+  const mfaToken = await jwt.generateToken(
+    { sub: userId, type: tokenType.mfa_pending, jti },
+    env.jwt.expiryMfaToken,
+  );
+  const expiresAt = strToDate(env.jwt.expiryMfaToken);
+
+  await prisma.token.create({
+    data: {
+      userId,
+      token: hashChallengeId(jti),
+      type: tokenType.mfa_pending,
+      expiresAt,
+    },
+  });
+
+  return {
+    token: mfaToken,
+    expiresAt,
+  };
+};
+
+/**
+ * Wrong codes count towards the account lockout as well as the challenge,
+ * since a new challenge is only one password login away
+ */
+const verifyChallenge = async (
+  mfaToken: string,
+  factor: { code?: string; recoveryCode?: string },
+  device?: DeviceInfo,
+) => {
+  const payload = await jwt.verifyToken(mfaToken);
+  if (payload.type !== tokenType.mfa_pending || !payload.jti) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid challenge token");
+  }
+
+  // Failed and used attempts are counted on the stored challenge
+  const challenge = await prisma.token.findFirst({
+    where: { token: hashChallengeId(payload.jti), type: tokenType.mfa_pending },
+  });
+  if (
+    !challenge ||
+    challenge.userId !== payload.sub ||
+    challenge.isRevoked ||
+    challenge.expiresAt < new Date()
+  ) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid challenge token");
+  }
+
+  const user = await getUserOrThrow(payload.sub);
+  if (!user.twoFactorEnabled) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Two-factor authentication is not enabled",
+    );
+  }
+  await lockoutService.assertCanAttempt(user.email, device);
+
+  // Take an attempt before checking the code, in one conditional update,
+  // so parallel guesses cannot get past the limit
+  const attempt = await prisma.token.updateMany({
+    where: {
+      id: challenge.id,
+      isRevoked: false,
+      useCount: { lt: env.twoFactor.maxAttempts },
+    },
+    data: { useCount: { increment: 1 } },
+  });
+  if (attempt.count === 0) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid challenge token");
+  }
+
+  if (!(await verifySecondFactor(user, factor))) {
+    await lockoutService.recordFailure(user.email, device, user);
+    const dropped = await prisma.token.updateMany({
+      where: {
+        id: challenge.id,
+        isRevoked: false,
+        useCount: { gte: env.twoFactor.maxAttempts },
+      },
+      data: {
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokedReason: "Too many failed attempts",
+      },
+    });
+    if (dropped.count > 0) {
+      logger.warn("Two-factor challenge dropped after failed attempts", {
+        userId: user.id,
+      });
+    }
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid two-factor code");
+  }
+
+  // Single use: a concurrent request with the same challenge loses here
+  const consumed = await prisma.token.updateMany({
+    where: { id: challenge.id, isRevoked: false },
+    data: { isRevoked: true, revokedAt: new Date(), revokedReason: "Used" },
+  });
+  if (consumed.count !== 1) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid challenge token");
+  }
+  await lockoutService.recordSuccess(user.email);
+
+  return await prisma.user.findFirst({
+    where: { id: user.id },
+    select: userSelect.getUserSelect,
+  });
+};
+
+/**
+ * Step-up check for a signed-in user (see `/auth/reauthenticate`, which
+ * counts failures towards the login lockout)
+ */
+const verifyForUser = async (
+  userId: string,
+  factor: { code?: string; recoveryCode?: string },
+) => {
+  const user = await getUserOrThrow(userId);
+  if (!user.twoFactorEnabled) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Two-factor authentication is not enabled",
+    );
+  }
+  if (!(await verifySecondFactor(user, factor))) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid two-factor code");
+  }
+  return true;
+};
+
+export default {
+  setup,
+  enable,
+  disable,
+  regenerateRecoveryCodes,
+  createChallenge,
+  verifyChallenge,
+  verifyForUser,
+};
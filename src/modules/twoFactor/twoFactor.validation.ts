@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+const totpCode = z.string().regex(/^\d{6}$/, "code must be 6 digits");
+
+const enable = {
+  body: z.object({
+    code: totpCode,
+  }),
+};
+
+const disable = {
+  body: z
+    .object({
+      password: z.string(),
+      code: totpCode.optional(),
+      recoveryCode: z.string().optional(),
+    })
+    .refine((data) => !!data.code !== !!data.recoveryCode, {
+      message: "Provide either code or recoveryCode",
+      path: ["code"],
+    }),
+};
+
+const regenerateRecoveryCodes = {
+  body: z.object({
+    code: totpCode,
+  }),
+};
+
+const verify = {
+  body: z
+    .object({
+      mfaToken: z.string(),
+      code: totpCode.optional(),
+      recoveryCode: z.string().optional(),
+      fcmToken: z.string().optional(),
+      rememberMe: z.boolean().optional(),
+      trustDevice: z.boolean().optional(),
+    })
+    .refine((data) => !!data.code !== !!data.recoveryCode, {
+      message: "Provide either code or recoveryCode",
+      path: ["code"],
+    }),
+};
+
+export default {
+  enable,
+  disable,
+  regenerateRecoveryCodes,
+  verify,
+};
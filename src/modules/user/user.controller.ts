@@ -132,6 +132,63 @@ const recoverUser = catchAsync(async (req: Request, res: Response) => {
   );
 });
 
+const requestEmailChange = catchAsync(async (req: Request, res: Response) => {
+  const pending = await userService.requestEmailChange(
+    req.user?.id!,
+    req.body.email,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.email_change_requested"),
+      data: pending,
+    }),
+  );
+});
+
+const confirmEmailChange = catchAsync(async (req: Request, res: Response) => {
+  const user = await userService.confirmEmailChange(
+    req.user?.id!,
+    req.body.code,
+    req.user?.sessionId,
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.email_changed"),
+      data: user,
+    }),
+  );
+});
+
+const cancelEmailChange = catchAsync(async (req: Request, res: Response) => {
+  const { reverted } = await userService.cancelEmailChange(req.body.token);
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str(
+        reverted ? "user.email_change_reverted" : "user.email_change_cancelled",
+      ),
+    }),
+  );
+});
+
+const impersonateUser = catchAsync(async (req: Request, res: Response) => {
+  const token = await userService.impersonateUser(
+    req.actor?.id!,
+    req.actor?.sessionId,
+    req.params.userId as string,
+    req.body.reason
+  );
+  res.status(httpStatus.OK).json(
+    response({
+      status: httpStatus.OK,
+      message: req.str("user.impersonation_started"),
+      token,
+    })
+  );
+});
+
 export default {
   getProfile,
   updateProfile,
@@ -142,4 +199,8 @@ export default {
   addUser,
   deleteUser,
   recoverUser,
+  impersonateUser,
+  requestEmailChange,
+  confirmEmailChange,
+  cancelEmailChange,
 };
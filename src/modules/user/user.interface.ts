@@ -9,12 +9,19 @@ export interface IUser {
   fcmToken?: string | null;
   phoneNumber?: string | null;
   countryCode?: string | null;
-  oneTimeCode?: string | null;
-  oneTimeCodeExpires?: Date | null;
   isDeleted?: boolean;
   isEmailVerified?: boolean;
-  isResetPassword?: boolean;
+  twoFactorEnabled?: boolean;
   isRestricted?: boolean;
+  tokenVersion?: number;
+  // Session the current access token belongs to
+  sessionId?: string;
+  // Admin id when the access token is an impersonation token
+  impersonatedBy?: string;
+  // Set when the request was authenticated with an API key
+  apiKey?: { id: string; scopes: string[] };
+  // Set when the request carries an OAuth2 access token from a third-party app
+  oauthClient?: { clientId: string; scopes: string[] };
   restrictionReason?: string | null;
   // Business fields
   bio?: string | null;
@@ -1,9 +1,16 @@
 import express from "express";
 import userController from "./user.controller";
 import auth from "../../middlewares/auth";
+import requireRecentAuth from "../../middlewares/requireRecentAuth";
+import denyImpersonation from "../../middlewares/denyImpersonation";
+import requireUserSession from "../../middlewares/requireUserSession";
 import validate from "../../middlewares/validate";
 import userValidation from "./user.validation";
 import userFileUploadMiddleware from "../../middlewares/fileUploader";
+import dataExportController from "../dataExport/dataExport.controller";
+import dataExportValidation from "../dataExport/dataExport.validation";
+import roleController from "../role/role.controller";
+import roleValidation from "../role/role.validation";
 const uploadAll = userFileUploadMiddleware("./public/uploads/all").fields([
   { name: "avatar", maxCount: 1 },
   { name: "documents", maxCount: 2 },
@@ -22,9 +29,55 @@ router
     userController.updateProfile
   );
 
+router
+  .route("/self/email-change")
+  .post(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    requireRecentAuth(),
+    validate(userValidation.requestEmailChange),
+    userController.requestEmailChange
+  );
+
+router
+  .route("/self/email-change/confirm")
+  .post(
+    auth("common"),
+    denyImpersonation,
+    requireUserSession,
+    requireRecentAuth(),
+    validate(userValidation.confirmEmailChange),
+    userController.confirmEmailChange
+  );
+
+router
+  .route("/self/email-change/cancel")
+  .post(
+    validate(userValidation.cancelEmailChange),
+    userController.cancelEmailChange
+  );
+
+// Impersonating admins use the admin export below instead
+router
+  .route("/self/export")
+  .get(auth("common"), dataExportController.listOwnExports)
+  .post(
+    auth("common"),
+    denyImpersonation,
+    dataExportController.requestOwnExport
+  );
+
+// Public: the emailed link carries its own token
+router.get(
+  "/exports/download",
+  validate(dataExportValidation.downloadExport),
+  dataExportController.downloadExport
+);
+
 router.get(
   "/all",
-  auth("provider"),
+  auth("manageUsers"),
   validate(userValidation.queryAllUsers),
   userController.queryAllUsers
 );
@@ -37,10 +90,36 @@ router
     userController.getProfileById
   );
 
+router
+  .route("/:userId/impersonate")
+  .post(
+    auth("admin"),
+    requireRecentAuth(),
+    validate(userValidation.impersonateUser),
+    userController.impersonateUser
+  );
+
+router
+  .route("/:userId/role")
+  .patch(
+    auth("manageRoles"),
+    requireRecentAuth(),
+    validate(roleValidation.assignRole),
+    roleController.assignRole
+  );
+
+router
+  .route("/:userId/export")
+  .post(
+    auth("admin"),
+    validate(dataExportValidation.requestUserExport),
+    dataExportController.requestUserExport
+  );
+
 router
   .route("/restrict/:userId")
   .post(
-    auth("provider"),
+    auth("manageUsers"),
     validate(userValidation.restrictUser),
     userController.restrictUser
   );
@@ -48,7 +127,7 @@ router
 router
   .route("/unrestrict/:userId")
   .post(
-    auth("provider"),
+    auth("manageUsers"),
     validate(userValidation.unrestrictUser),
     userController.unrestrictUser
   );
@@ -56,7 +135,7 @@ router
 router
   .route("/create")
   .post(
-    auth("provider"),
+    auth("manageUsers"),
     uploadAll,
     validate(userValidation.addUser),
     userController.addUser
@@ -65,14 +144,15 @@ router
 router
   .route("/delete/:userId")
   .delete(
-    auth("provider"),
+    auth("manageUsers"),
+    requireRecentAuth(),
     validate(userValidation.getUserById),
     userController.deleteUser
   );
 router
   .route("/recover/:userId")
   .post(
-    auth("provider"),
+    auth("manageUsers"),
     validate(userValidation.getUserById),
     userController.recoverUser
   );
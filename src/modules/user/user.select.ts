@@ -6,6 +6,7 @@ const getUserSelect = {
   role: true,
   avatar: true,
   isEmailVerified: true,
+  twoFactorEnabled: true,
   fcmToken: true,
   phoneNumber: true,
   countryCode: true,
@@ -5,6 +5,19 @@ import fs from "../../utils/fs";
 import env from "../../configs/variables";
 import { IUser } from "./user.interface";
 import prisma from "../../configs/prisma";
+import passwordHasher from "../../utils/passwordHasher";
+import passwordService from "../password/password.service";
+import userSelect from "./user.select";
+import otpService from "../otp/otp.service";
+import tokenService from "../token/token.service";
+import trustedDeviceService from "../trustedDevice/trustedDevice.service";
+import accountDeletionService from "../accountDeletion/accountDeletion.service";
+import logger from "../../utils/logger";
+import crypto from "crypto";
+import jwt from "../../utils/jwt";
+import { strToDate } from "../../utils/date";
+import roleService from "../role/role.service";
+import { OtpPurpose, tokenType } from "../../../generated/prisma/enums";
 
 interface UploadedFiles {
   avatar?: Express.Multer.File[];
@@ -106,6 +119,7 @@ const restrictUser = async (userId: string, reason: string) => {
   if (!user) {
     throw new ApiError(httpStatus.NOT_FOUND, "User not found");
   }
+  await tokenService.bumpTokenVersion(userId, "User restricted");
 
   await email.sendRestrictionEmail(user.email, reason);
 };
@@ -123,17 +137,79 @@ const unRestrictUser = async (userId: string) => {
   await email.sendUnrestrictedEmail(user.email);
 };
 
+/**
+ * Short-lived access token acting as the user on behalf of an admin.
+ * There is no refresh token; it ends with the admin's session.
+ */
+const impersonateUser = async (
+  adminId: string,
+  adminSessionId: string | undefined,
+  userId: string,
+  reason: string
+) => {
+  if (adminId === userId) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "You cannot impersonate yourself");
+  }
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isDeleted: false },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+  if (await roleService.roleHasPermission(user.role, "admin")) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Admins cannot be impersonated");
+  }
+  if (user.isRestricted) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Restricted users cannot be impersonated"
+    );
+  }
+
+  const token = await jwt.generateToken(
+    {
+      sub: user.id,
+      type: tokenType.access,
+      tv: user.tokenVersion,
+      act: { sub: adminId, sid: adminSessionId },
+    },
+    env.jwt.expiryImpersonationToken
+  );
+
+  logger.warn("Impersonation started", { adminId, userId, reason });
+  return {
+    access: {
+      token,
+      expiresAt: strToDate(env.jwt.expiryImpersonationToken),
+    },
+  };
+};
+
+// Recoverable until the grace period ends and the purge job removes it
 const deleteUser = async (userId: string) => {
-  return await prisma.user.update({
+  const user = await prisma.user.update({
     where: { id: userId },
-    data: { isDeleted: true },
+    data: {
+      isDeleted: true,
+      deletionRequestedAt: new Date(),
+      deletionScheduledFor: accountDeletionService.gracePeriodEnd(),
+    },
   });
+  await accountDeletionService.signOutEverywhere(
+    userId,
+    "Account deleted by admin",
+  );
+  return user;
 };
 
 const recoverUser = async (userId: string) => {
   return await prisma.user.update({
     where: { id: userId },
-    data: { isDeleted: false },
+    data: {
+      isDeleted: false,
+      deletionRequestedAt: null,
+      deletionScheduledFor: null,
+    },
   });
 };
 
@@ -157,13 +233,20 @@ const addUser = async ({
     lastName,
     email,
     role: role as string,
-    password,
     isEmailVerified: true,
   };
 
   if (await prisma.user.findUnique({ where: { email } })) {
     throw new ApiError(httpStatus.BAD_REQUEST, "Email already taken");
   }
+  await roleService.assertRoleExists(role);
+
+  await passwordService.assertPasswordPolicy(password, {
+    email,
+    firstName,
+    lastName,
+  });
+  userObject.password = await passwordHasher.hash(password);
 
   if (files?.avatar?.[0]) {
     const file = files.avatar[0];
@@ -171,7 +254,187 @@ const addUser = async ({
       env.BACKEND_URL + "/public" + fs.sanitizePath(file.path);
   }
 
-  return prisma.user.create({ data: userObject });
+  const user = await prisma.user.create({
+    data: userObject,
+    select: userSelect.getUserSelect,
+  });
+  await passwordService.recordPasswordHistory(user.id, userObject.password);
+  return user;
+};
+
+const hashCancelToken = (token: string) => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+/**
+ * Fail if the address belongs to another account. Soft-deleted accounts
+ * keep their address until they are purged, the same as in registration.
+ */
+const assertEmailAvailable = async (newEmail: string, userId: string) => {
+  const owner = await getUserByEmail(newEmail);
+  if (owner && owner.id !== userId) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Email already taken");
+  }
+};
+
+const requestEmailChange = async (userId: string, newEmail: string) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isDeleted: false },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+  if (newEmail === user.email) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "New email must be different from the current email"
+    );
+  }
+  await assertEmailAvailable(newEmail, userId);
+  await otpService.assertCanResend(userId, OtpPurpose.email_change);
+
+  // Only the latest request can be confirmed
+  await prisma.emailChangeRequest.updateMany({
+    where: { userId, confirmedAt: null, cancelledAt: null },
+    data: { cancelledAt: new Date() },
+  });
+
+  const cancelToken = crypto.randomBytes(32).toString("hex");
+  const request = await prisma.emailChangeRequest.create({
+    data: {
+      userId,
+      newEmail,
+      oldEmail: user.email,
+      cancelTokenHash: hashCancelToken(cancelToken),
+      expiresAt: new Date(Date.now() + env.otp.expiryMinutes * 60 * 1000),
+    },
+  });
+  const code = await otpService.issue(userId, OtpPurpose.email_change);
+
+  const cancelLink = `${env.FRONTEND_URL}/cancel-email-change?token=${cancelToken}`;
+  setImmediate(() => {
+    email
+      .sendEmailChangeCodeEmail(newEmail, code, env.otp.expiryMinutes)
+      .catch((err) => logger.error("Error sending email change code: " + err));
+    email
+      .sendEmailChangeNoticeEmail(
+        user.email,
+        newEmail,
+        cancelLink,
+        env.emailChange.revertDays
+      )
+      .catch((err) =>
+        logger.error("Error sending email change notice: " + err)
+      );
+  });
+
+  logger.info("Email change requested", { userId, requestId: request.id });
+  return { newEmail, expiresAt: request.expiresAt };
+};
+
+const confirmEmailChange = async (
+  userId: string,
+  code: string,
+  sessionId?: string
+) => {
+  const request = await prisma.emailChangeRequest.findFirst({
+    where: { userId, confirmedAt: null, cancelledAt: null },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!request || request.expiresAt < new Date()) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "No pending email change");
+  }
+
+  await otpService.verify(userId, OtpPurpose.email_change, code);
+
+  // The address may have been taken while the request was pending
+  await assertEmailAvailable(request.newEmail, userId);
+
+  const user = await prisma.$transaction(async (tx) => {
+    await tx.emailChangeRequest.update({
+      where: { id: request.id },
+      data: { confirmedAt: new Date() },
+    });
+    return await tx.user.update({
+      where: { id: userId },
+      data: { email: request.newEmail, isEmailVerified: true },
+      select: userSelect.getUserSelect,
+    });
+  });
+
+  await tokenService.revokeAllForUser(userId, {
+    reason: "Email address changed",
+    exceptSessionId: sessionId,
+  });
+
+  logger.info("Email address changed", {
+    userId,
+    requestId: request.id,
+  });
+  return user;
+};
+
+/**
+ * Cancel through the link sent to the old address, so it works
+ * without being logged in. Someone holding the new inbox can confirm
+ * right away, so for `EMAIL_CHANGE_REVERT_DAYS` after confirmation the
+ * link undoes the change and signs every session out.
+ */
+const cancelEmailChange = async (cancelToken: string) => {
+  const request = await prisma.emailChangeRequest.findUnique({
+    where: { cancelTokenHash: hashCancelToken(cancelToken) },
+  });
+  if (!request || request.cancelledAt) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Invalid or expired cancel link");
+  }
+
+  if (!request.confirmedAt) {
+    await prisma.emailChangeRequest.update({
+      where: { id: request.id },
+      data: { cancelledAt: new Date() },
+    });
+    logger.warn("Email change cancelled from the old address", {
+      userId: request.userId,
+      requestId: request.id,
+    });
+    return { reverted: false };
+  }
+
+  const revertUntil = new Date(request.confirmedAt);
+  revertUntil.setDate(revertUntil.getDate() + env.emailChange.revertDays);
+  if (revertUntil < new Date()) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Invalid or expired cancel link");
+  }
+  // The old address may have been registered by someone else meanwhile
+  await assertEmailAvailable(request.oldEmail, request.userId);
+
+  await prisma.$transaction(async (tx) => {
+    // Also drop anything the intruder requested after it
+    await tx.emailChangeRequest.updateMany({
+      where: {
+        userId: request.userId,
+        cancelledAt: null,
+        OR: [{ id: request.id }, { confirmedAt: null }],
+      },
+      data: { cancelledAt: new Date() },
+    });
+    await tx.user.update({
+      where: { id: request.userId },
+      data: { email: request.oldEmail, isEmailVerified: true },
+    });
+  });
+
+  await tokenService.bumpTokenVersion(request.userId, "Email change reverted");
+  await trustedDeviceService.revokeAllForUser(
+    request.userId,
+    "Email change reverted"
+  );
+
+  logger.warn("Confirmed email change reverted from the old address", {
+    userId: request.userId,
+    requestId: request.id,
+  });
+  return { reverted: true };
 };
 
 export default {
@@ -184,4 +447,8 @@ export default {
   addUser,
   deleteUser,
   recoverUser,
+  impersonateUser,
+  requestEmailChange,
+  confirmEmailChange,
+  cancelEmailChange,
 };
@@ -1,5 +1,4 @@
 import { z } from "zod";
-import validator from "../../utils/validation";
 
 const updateProfile = {
   body: z.object({
@@ -32,7 +31,7 @@ const queryAllUsers = {
     page: z.coerce.number().default(1).optional(),
     limit: z.coerce.number().default(10).optional(),
     sort: z.string().default("createdAt desc").optional(),
-    role: z.enum(["provider", "user"]).optional(),
+    role: z.string().optional(),
     isDeleted: z.coerce.boolean().optional(),
     email: z.string().email().optional(),
     firstName: z.string().optional(),
@@ -73,6 +72,15 @@ const unrestrictUser = {
   }),
 };
 
+const impersonateUser = {
+  params: z.object({
+    userId: z.string().uuid(),
+  }),
+  body: z.object({
+    reason: z.string().trim().min(1).max(500),
+  }),
+};
+
 const getUserById = {
   params: z.object({
     userId: z.string().uuid(),
@@ -85,10 +93,26 @@ const addUser = {
     firstName: z.string(),
     lastName: z.string(),
     email: z.string().email(),
-    role: z.enum(["provider", "user"]),
-    password: z.string().refine(validator.password, {
-      message: "password must be at least 8 characters and contain at least 1 letter and 1 number",
-    }),
+    role: z.string().min(1),
+    password: z.string().min(1).max(128),
+  }),
+};
+
+const requestEmailChange = {
+  body: z.object({
+    email: z.string().email(),
+  }),
+};
+
+const confirmEmailChange = {
+  body: z.object({
+    code: z.string(),
+  }),
+};
+
+const cancelEmailChange = {
+  body: z.object({
+    token: z.string(),
   }),
 };
 
@@ -98,5 +122,9 @@ export default {
   restrictUser,
   unrestrictUser,
   getUserById,
+  impersonateUser,
   addUser,
+  requestEmailChange,
+  confirmEmailChange,
+  cancelEmailChange,
 };
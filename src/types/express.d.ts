@@ -40,6 +40,14 @@ export interface DeviceInfo {
     xClientIp?: string;
     forwarded?: string;
   };
+
+  // Location supplied by the edge proxy (Cloudflare visitor location headers)
+  geo?: {
+    country?: string;
+    city?: string;
+    latitude?: number;
+    longitude?: number;
+  };
 }
 
 declare global {
@@ -53,6 +61,9 @@ declare global {
 
     interface Request {
       device?: DeviceInfo;
+      // Who is really making the request; differs from `user` while
+      // an admin impersonates someone
+      actor?: User;
       rawBody?: string;
       language?: string;
       str: (
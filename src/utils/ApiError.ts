@@ -1,18 +1,33 @@
 import httpStatus from "http-status";
+import type { I18nKey } from "./i18n";
+
+export interface ApiErrorDetail {
+  field?: string;
+  rule: string;
+  key?: I18nKey; // Localized through req.str by the error handler
+  params?: Record<string, string | number>;
+  message?: string;
+}
 
 class ApiError extends Error {
   status: keyof typeof httpStatus;
   isOperational: boolean;
+  errors?: ApiErrorDetail[];
+  key?: I18nKey; // Localized through req.str in place of message
 
   constructor(
     status: keyof typeof httpStatus,
     message: string,
     isOperational: boolean = true,
-    stack: string = ""
+    stack: string = "",
+    errors?: ApiErrorDetail[],
+    key?: I18nKey
   ) {
     super(message);
     this.status = status;
     this.isOperational = isOperational;
+    this.errors = errors;
+    this.key = key;
 
     if (stack) {
       this.stack = stack;
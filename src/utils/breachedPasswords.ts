@@ -0,0 +1,53 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import logger from "./logger";
+
+/**
+ * Offline breached-password lookup using k-anonymity style range files.
+ *
+ * The directory holds one file per 5 character SHA-1 prefix, named
+ * `ABCDE.txt` (or `ABCDE`), each line being `SUFFIX:COUNT`, which is the
+ * layout produced by the haveibeenpwned downloader. Only the range file
+ * for the password's prefix is read.
+ */
+const getBreachCount = async (
+  password: string,
+  hashesDir: string,
+): Promise<number> => {
+  const hash = crypto
+    .createHash("sha1")
+    .update(password)
+    .digest("hex")
+    .toUpperCase();
+  const prefix = hash.slice(0, 5);
+  const suffix = hash.slice(5);
+
+  const candidates = [
+    path.join(hashesDir, `${prefix}.txt`),
+    path.join(hashesDir, prefix),
+  ];
+
+  for (const file of candidates) {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(file, "utf8");
+    } catch (err: any) {
+      if (err.code === "ENOENT") continue;
+      logger.error("Failed to read breached password range file", err);
+      return 0;
+    }
+
+    for (const line of content.split("\n")) {
+      const [lineSuffix, count] = line.trim().split(":");
+      if (lineSuffix?.toUpperCase() === suffix) {
+        return Number(count) || 1;
+      }
+    }
+    return 0;
+  }
+
+  return 0;
+};
+
+export default { getBreachCount };
@@ -0,0 +1,43 @@
+import crypto from "crypto";
+import type { Request } from "express";
+
+// Double-submit: the cookie is readable by the frontend, which echoes it
+// back in the header. A cross-site page can send the cookie but never
+// read it, so it cannot produce a matching header.
+const CSRF_COOKIE = "csrfToken";
+const CSRF_HEADER = "x-csrf-token";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+const generateCsrfToken = () => crypto.randomBytes(32).toString("base64url");
+
+/**
+ * Browsers attach cookies on their own; bearer headers and API keys have
+ * to be added by the caller, so only cookie sessions need CSRF checks
+ */
+const isCookieAuthenticated = (req: Request) => {
+  return !req.headers.authorization && !!req.cookies?.accessToken;
+};
+
+const hasValidCsrfToken = (req: Request) => {
+  if (SAFE_METHODS.includes(req.method)) return true;
+
+  const cookieToken = req.cookies?.[CSRF_COOKIE];
+  const headerToken = req.get(CSRF_HEADER);
+  if (!cookieToken || !headerToken) return false;
+
+  const expected = Buffer.from(cookieToken);
+  const presented = Buffer.from(headerToken);
+  return (
+    expected.length === presented.length &&
+    crypto.timingSafeEqual(expected, presented)
+  );
+};
+
+export {
+  CSRF_COOKIE,
+  CSRF_HEADER,
+  generateCsrfToken,
+  isCookieAuthenticated,
+  hasValidCsrfToken,
+};
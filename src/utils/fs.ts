@@ -18,12 +18,16 @@ const sanitizePath = (path: string) => {
   return path.replace(/\\/g, "/").replace("public", "");
 };
 
-const deleteLocalFile = async (fileUrl?: string) => {
-  if (!fileUrl) return;
+const localPathFromUrl = (fileUrl: string) => {
   const relativePath = fileUrl
     .replace(env.BACKEND_URL, "")
     .replace("/public", "");
-  const absolutePath = path.join(process.cwd(), "public", relativePath);
+  return path.join(process.cwd(), "public", relativePath);
+};
+
+const deleteLocalFile = async (fileUrl?: string) => {
+  if (!fileUrl) return;
+  const absolutePath = localPathFromUrl(fileUrl);
 
   try {
     fs.unlinkSync(absolutePath);
@@ -37,5 +41,6 @@ export default {
   createFolder,
   deleteFolder,
   sanitizePath,
+  localPathFromUrl,
   deleteLocalFile,
 };
@@ -5,12 +5,14 @@ import logger from "./logger";
 import authLocale from "../locales/en/auth.json";
 import userLocale from "../locales/en/user.json";
 import commonLocale from "../locales/en/common.json";
+import passwordLocale from "../locales/en/password.json";
 
 // Define the schema based on default locale
 type I18nSchema = {
   auth: typeof authLocale;
   user: typeof userLocale;
   common: typeof commonLocale;
+  password: typeof passwordLocale;
 };
 
 // Helper type to generate dot notation keys
@@ -1,8 +1,15 @@
 import jwt from "jsonwebtoken";
+import {
+  SignJWT,
+  jwtVerify,
+  decodeProtectedHeader,
+  errors,
+} from "jose";
 import env from "../configs/variables";
 import ApiError from "./ApiError";
 import status from "http-status";
-import crypto from "crypto";
+import crypto, { type KeyObject } from "crypto";
+import keyringService from "../modules/keyring/keyring.service";
 
 export interface JWTPayload {
   sub: string; // Subject (user ID) - standard JWT claim
@@ -12,6 +19,11 @@ export interface JWTPayload {
   exp?: number; // Expiration time
   aud?: string; // Audience
   iss?: string; // Issuer
+  sid?: string; // Session id (refresh token family)
+  tv?: number; // User token version at issue time
+  act?: { sub: string; sid?: string }; // Real actor while impersonating (RFC 8693)
+  scope?: string; // Space separated rights granted to an OAuth2 client
+  client_id?: string; // OAuth2 client the token was issued to
 }
 
 const decodeToken = (token: string): any => {
@@ -19,51 +31,79 @@ const decodeToken = (token: string): any => {
   return decoded;
 };
 
-const verifyToken = (token: string): JWTPayload => {
+const legacySecret = () => new TextEncoder().encode(env.jwt.secret);
+
+/**
+ * Pick the verification key from the token's `kid`. HS256 tokens issued
+ * before the keyring existed are accepted while the legacy flag is on.
+ */
+const resolveKey = async (header: { alg?: string; kid?: string }) => {
+  if (header.alg === "HS256" && env.jwt.allowLegacyHs256) {
+    return legacySecret();
+  }
+  const key = await keyringService.getVerificationKey(header.kid);
+  if (!key || key.algorithm !== header.alg) {
+    throw new errors.JWSSignatureVerificationFailed();
+  }
+  return key.publicKey;
+};
+
+const getVerificationKey = async (token: string) => {
+  return await resolveKey(decodeProtectedHeader(token));
+};
+
+const verifyWithKey = async (
+  token: string,
+  key: KeyObject | Uint8Array
+): Promise<JWTPayload> => {
+  const { payload } = await jwtVerify(token, key, {
+    algorithms: ["RS256", "EdDSA", "HS256"],
+    issuer: env.jwt.issuer,
+    audience: env.jwt.audience,
+  });
+  return payload as unknown as JWTPayload;
+};
+
+const verifyToken = async (token: string): Promise<JWTPayload> => {
   try {
-    const verified = jwt.verify(token, env.jwt.secret, {
-      algorithms: ["HS256"],
-      issuer: env.jwt.issuer,
-      audience: env.jwt.audience,
-    }) as JWTPayload;
-    return verified;
+    return await verifyWithKey(token, await getVerificationKey(token));
   } catch (error: any) {
-    if (error.name === "TokenExpiredError") {
+    if (error instanceof errors.JWTExpired) {
       throw new ApiError(status.UNAUTHORIZED, "Token has expired");
     }
-    if (error.name === "JsonWebTokenError") {
-      throw new ApiError(status.FORBIDDEN, "Invalid token");
-    }
-    if (error.name === "NotBeforeError") {
+    if (
+      error instanceof errors.JWTClaimValidationFailed &&
+      error.claim === "nbf"
+    ) {
       throw new ApiError(status.FORBIDDEN, "Token not yet valid");
     }
+    if (error instanceof errors.JOSEError) {
+      throw new ApiError(status.FORBIDDEN, "Invalid token");
+    }
     throw new ApiError(status.FORBIDDEN, "Token verification failed");
   }
 };
 
-const generateToken = (
+const generateToken = async (
   payload: Omit<JWTPayload, "iat" | "exp">,
   expiresIn: string = env.jwt.expiryAccessToken
-): string => {
+): Promise<string> => {
   const jti = payload.jti || crypto.randomBytes(16).toString("hex");
+  const key = await keyringService.getSigningKey();
 
-  return jwt.sign(
-    {
-      ...payload,
-      jti,
-    },
-    env.jwt.secret,
-    {
-      expiresIn: expiresIn as any,
-      algorithm: "HS256",
-      issuer: env.jwt.issuer,
-      audience: env.jwt.audience,
-    }
-  );
+  return await new SignJWT({ ...payload, jti })
+    .setProtectedHeader({ alg: key.algorithm, kid: key.kid, typ: "JWT" })
+    .setIssuedAt()
+    .setIssuer(env.jwt.issuer)
+    .setAudience(env.jwt.audience)
+    .setExpirationTime(expiresIn)
+    .sign(key.privateKey);
 };
 
 export default {
   decodeToken,
+  getVerificationKey,
+  verifyWithKey,
   verifyToken,
   generateToken,
   jwt
@@ -0,0 +1,61 @@
+import argon2 from "argon2";
+import bcrypt from "bcrypt";
+import env from "../configs/variables";
+
+/**
+ * Both formats are self-describing: argon2 stores a PHC string
+ * (`$argon2id$v=19$m=..,t=..,p=..$salt$hash`) and bcrypt stores
+ * `$2b$<rounds>$...`, so the algorithm and parameters used for a
+ * password always travel with its hash.
+ */
+const isArgon2Hash = (hash: string) => hash.startsWith("$argon2");
+const isBcryptHash = (hash: string) => /^\$2[aby]\$\d{2}\$/.test(hash);
+
+const argon2Options = () => ({
+  memoryCost: env.passwordHash.argon2MemoryCost,
+  timeCost: env.passwordHash.argon2TimeCost,
+  parallelism: env.passwordHash.argon2Parallelism,
+});
+
+const hash = async (password: string) => {
+  if (env.passwordHash.algorithm === "bcrypt") {
+    return await bcrypt.hash(password, env.passwordHash.bcryptRounds);
+  }
+  return await argon2.hash(password, {
+    ...argon2Options(),
+    type: argon2.argon2id,
+  });
+};
+
+const verify = async (password: string, passwordHash?: string | null) => {
+  if (!passwordHash) return false;
+  if (isArgon2Hash(passwordHash)) {
+    return await argon2.verify(passwordHash, password).catch(() => false);
+  }
+  if (isBcryptHash(passwordHash)) {
+    return await bcrypt.compare(password, passwordHash);
+  }
+  return false;
+};
+
+/**
+ * True when the stored hash was made with another algorithm or
+ * weaker parameters than currently configured
+ */
+const needsRehash = (passwordHash?: string | null) => {
+  if (!passwordHash) return false;
+
+  if (env.passwordHash.algorithm === "bcrypt") {
+    if (!isBcryptHash(passwordHash)) return true;
+    return bcrypt.getRounds(passwordHash) < env.passwordHash.bcryptRounds;
+  }
+
+  if (!passwordHash.startsWith("$argon2id$")) return true;
+  return argon2.needsRehash(passwordHash, argon2Options());
+};
+
+export default {
+  hash,
+  verify,
+  needsRehash,
+};
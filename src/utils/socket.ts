@@ -16,6 +16,18 @@ export const getOnlineUsers = (): string[] => {
   return Array.from(onlineUsers.keys());
 };
 
+// Helper to send an event to a user's socket, if they are connected
+export const emitToUser = (
+  userId: string,
+  event: string,
+  payload: unknown
+): boolean => {
+  const socketId = onlineUsers.get(userId);
+  if (!socketId || !global.io) return false;
+  global.io.to(socketId).emit(event, payload);
+  return true;
+};
+
 export default function socketIO(io: Server) {
   io.use(async (socket: Socket, next: (err?: Error) => void) => {
     await socketAuth(socket, next);
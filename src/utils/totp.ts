@@ -0,0 +1,128 @@
+import crypto from "crypto";
+
+/**
+ * RFC 6238 TOTP helpers (SHA-1, 6 digits, 30 second step)
+ * Compatible with Google Authenticator, Authy, 1Password, etc.
+ */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const DIGITS = 6;
+const STEP_SECONDS = 30;
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.replace(/=+$/, "").replace(/\s/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+const generateSecret = (size = 20): string => {
+  return base32Encode(crypto.randomBytes(size));
+};
+
+const hotp = (secret: string, counter: number): string => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto
+    .createHmac("sha1", base32Decode(secret))
+    .update(buffer)
+    .digest();
+
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code =
+    ((hmac[offset] & 0x7f) << 24) |
+    ((hmac[offset + 1] & 0xff) << 16) |
+    ((hmac[offset + 2] & 0xff) << 8) |
+    (hmac[offset + 3] & 0xff);
+
+  return (code % Math.pow(10, DIGITS)).toString().padStart(DIGITS, "0");
+};
+
+const generateCode = (secret: string, timestamp = Date.now()): string => {
+  return hotp(secret, Math.floor(timestamp / 1000 / STEP_SECONDS));
+};
+
+/**
+ * Find the time step a code belongs to, allowing `window` steps of
+ * clock drift on either side. Returns null when the code does not match.
+ */
+const findCodeStep = (
+  secret: string,
+  code: string,
+  window = 1,
+): number | null => {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const counter = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let i = -window; i <= window; i++) {
+    const expected = hotp(secret, counter + i);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return counter + i;
+    }
+  }
+  return null;
+};
+
+/**
+ * Verify a code allowing `window` steps of clock drift on either side
+ */
+const verifyCode = (secret: string, code: string, window = 1): boolean => {
+  return findCodeStep(secret, code, window) !== null;
+};
+
+const buildOtpAuthUrl = (secret: string, account: string, issuer: string) => {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+export default {
+  generateSecret,
+  generateCode,
+  findCodeStep,
+  verifyCode,
+  buildOtpAuthUrl,
+};